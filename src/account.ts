@@ -5,6 +5,7 @@ import { mainnet } from 'viem/chains'
 import * as bitcoin from 'bitcoinjs-lib'
 import ECPairFactory from 'ecpair'
 import * as ecc from 'tiny-secp256k1'
+import { type TokenAmount, tokenAmount } from './providers/types.js'
 
 // Initialize ECC library for bitcoinjs-lib (required for Taproot/P2TR addresses)
 bitcoin.initEccLib(ecc)
@@ -72,7 +73,7 @@ const ERC20_ABI = [
 // Use shared price fetcher
 import { getTokenPrices } from './prices.js'
 
-interface BalanceResult {
+export interface BalanceResult {
   btc: string
   eth: string
   usdc: string
@@ -883,6 +884,7 @@ export async function sendBitcoin(
 
     // Record spent UTXOs for local tracking (prevents UTXO conflicts before mempool propagation)
     recordSpentUtxos(selectedUtxos, broadcastedTxid)
+    btcTxFees.set(broadcastedTxid, BigInt(fee))
     
     // Record change output if we have one (available for immediate spending)
     if (change > 546) {
@@ -1076,6 +1078,7 @@ export async function sendBitcoinWithMemo(
 
     // Record spent UTXOs
     recordSpentUtxos(selectedUtxos, broadcastedTxid)
+    btcTxFees.set(broadcastedTxid, BigInt(fee))
     
     // Record change output if we have one
     if (change > 546) {
@@ -1174,6 +1177,11 @@ export async function signAndBroadcastPsbt(psbtHex: string): Promise<string> {
     // IMPORTANT: Record these UTXOs as definitively SPENT by us
     // This is our authoritative local state - no need to wait for mempool propagation
     recordSpentUtxos(reservedUtxosList, broadcastedTxid)
+
+    // Miner fee = inputs - outputs (witnessUtxo values are set on the PSBT inputs)
+    const inputTotal = psbt.data.inputs.reduce((sum, input) => sum + (input.witnessUtxo?.value ?? 0n), 0n)
+    const outputTotal = psbt.txOutputs.reduce((sum, output) => sum + BigInt(output.value), 0n)
+    btcTxFees.set(broadcastedTxid, inputTotal - outputTotal)
     
     // Find and record any change output back to our address
     const { address: ourAddress } = bitcoin.payments.p2wpkh({
@@ -1439,6 +1447,7 @@ export async function buildTxFromRelayOutputs(
     
     // Record spent UTXOs
     recordSpentUtxos(selectedUtxos, broadcastedTxid)
+    btcTxFees.set(broadcastedTxid, BigInt(fee))
     
     // Record change output if we have one
     if (change > 546) {
@@ -1453,3 +1462,44 @@ export async function buildTxFromRelayOutputs(
     throw err
   }
 }
+
+// ============================================================================
+// NETWORK COSTS (our own miner fees and gas)
+// ============================================================================
+
+// Miner fee (sats) of each BTC tx we broadcast, keyed by txid
+const btcTxFees = new Map<string, bigint>()
+
+// Miner fee of a BTC tx: from our own broadcast record, else from mempool.space
+async function getBtcTxFee(txid: string): Promise<bigint> {
+  const known = btcTxFees.get(txid)
+  if (known !== undefined) return known
+  const res = await fetch(`https://mempool.space/api/tx/${txid}`)
+  if (!res.ok) throw new Error(`mempool.space tx lookup failed: ${res.status}`)
+  const tx = await res.json() as { fee: number }
+  return BigInt(tx.fee)
+}
+
+// Gas actually paid by an EVM tx: gasUsed × effectiveGasPrice from its receipt
+async function getEvmTxCost(hash: `0x${string}`): Promise<bigint> {
+  const receipt = await mainnetPublicClient.waitForTransactionReceipt({ hash, timeout: 60_000 })
+  return receipt.gasUsed * receipt.effectiveGasPrice
+}
+
+/**
+ * Network costs of the txs we sent for a swap (deposits and approvals):
+ * BTC miner fees in sats, EVM gas in wei. Txs that can't be looked up are skipped.
+ */
+export async function getNetworkCosts(txHashes: string[]): Promise<TokenAmount[]> {
+  const costs: TokenAmount[] = []
+  for (const hash of new Set(txHashes)) {
+    try {
+      costs.push(hash.startsWith('0x')
+        ? tokenAmount('ETH', await getEvmTxCost(hash as `0x${string}`))
+        : tokenAmount('BTC', await getBtcTxFee(hash)))
+    } catch (err) {
+      console.warn(`⚠️  Could not get network cost for ${hash.slice(0, 16)}...: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+  return costs
+}
@@ -0,0 +1,497 @@
+import { selectRows, type Row } from './db.js'
+import { tokenAmountToNumber } from './providers/types.js'
+import { storedAmount } from './csv.js'
+
+// Server-side fee statistics over the stored swaps, settlements and failures,
+// grouped by provider × pair × size tier × direction (served as /api/stats),
+// quoted-vs-delivered output accuracy per provider × pair (/api/quote-accuracy),
+// logged vs historically repriced fees (/api/repriced-fees, see backfill.ts)
+// and side-by-side results per experiment (/api/experiments/compare)
+
+export type Direction = 'BTC→EVM' | 'EVM→BTC'
+
+// Size tiers by input USD, matching the swap tiers in constants.ts (~$20 test, ~$100, ~$1k, ~$10k)
+const SIZE_TIERS: Array<[string, number]> = [
+  ['test', 50],
+  ['small', 500],
+  ['medium', 5000],
+  ['large', Infinity],
+]
+
+export interface StatsWindow {
+  from?: Date
+  to?: Date
+  experiment?: string  // only rows logged under this experiment (see experiments.ts)
+}
+
+export interface Distribution {
+  mean: number | null
+  p50: number | null
+  p90: number | null
+}
+
+export interface GroupStats {
+  provider: string
+  pair: string  // e.g. 'BTC→USDC'
+  tier: string
+  direction: Direction
+  swaps: number
+  executeFailures: number
+  completed: number
+  failed: number   // failed or refunded settlements
+  pending: number  // swaps with no settlement yet
+  successRate: number | null  // completed / (completed + failed + execute failures)
+  feeBips: Distribution
+  totalFeeBips: Distribution  // including our network costs (swaps logged since these were tracked)
+  latencyMs: Distribution & { p99: number | null }  // swap submitted -> settlement logged
+  slippageBips: Distribution  // quoted vs actual output, positive = received less than quoted
+}
+
+export interface Stats {
+  from: string | null
+  to: string | null
+  groups: GroupStats[]
+}
+
+const PRICE_COLUMNS: Record<string, string> = {
+  BTC: 'btcPrice',
+  CBBTC: 'cbbtcPrice',
+  USDC: 'usdcPrice',
+  ETH: 'ethPrice',
+}
+
+/**
+ * Value at percentile p (0-100) of the values, linearly interpolated (null if empty)
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+export function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+}
+
+function distribution(values: number[]): Distribution {
+  return { mean: mean(values), p50: percentile(values, 50), p90: percentile(values, 90) }
+}
+
+export function sizeTier(inputUsd: number | null): string {
+  if (inputUsd === null) return 'unknown'
+  return SIZE_TIERS.find(([, maxUsd]) => inputUsd < maxUsd)![0]
+}
+
+export function direction(inputToken: string): Direction {
+  return inputToken === 'BTC' ? 'BTC→EVM' : 'EVM→BTC'
+}
+
+/**
+ * USD price of a token recorded on a row (null if the row has no price for it)
+ */
+export function rowPrice(row: Row, token: string): number | null {
+  const price = row[PRICE_COLUMNS[token]]
+  return typeof price === 'number' && price > 0 ? price : null
+}
+
+// Input USD from the row's own inputUsd, else its inputAmount at the row's (or its quote's) prices
+function inputUsdOf(row: Row, quote?: Row): number | null {
+  if (typeof row.inputUsd === 'number') return row.inputUsd
+  const token = String(row.inputToken)
+  const price = rowPrice(row, token) ?? (quote ? rowPrice(quote, token) : null)
+  const amount = parseFloat(String(row.inputAmount))
+  return price !== null && Number.isFinite(amount) ? amount * price : null
+}
+
+/**
+ * Delivered minus quoted output in bips of the quote (negative = received less than quoted).
+ * Delivered is the on-chain verified amount, else the provider-reported one; null if either side is missing.
+ */
+export function deliveredVsQuotedBips(settlement: Row): number | null {
+  const delivered = settlement.verifiedOutputAmount || settlement.actualOutputAmount
+  if (!settlement.outputAmount || !delivered) return null
+  const token = String(settlement.outputToken)
+  const quoted = tokenAmountToNumber(storedAmount(settlement.outputAmount, token))
+  if (quoted <= 0) return null
+  return ((tokenAmountToNumber(storedAmount(delivered, token)) - quoted) / quoted) * 10000
+}
+
+// Swap submitted -> settlement logged (null if the clocks disagree)
+export function settlementDelayMs(swap: Row, settlement: Row): number | null {
+  const delay = Date.parse(String(settlement.timestamp)) - Date.parse(String(swap.timestamp))
+  return delay >= 0 ? delay : null
+}
+
+export function inWindow(row: Row, window: StatsWindow): boolean {
+  const time = Date.parse(String(row.timestamp))
+  if (window.from && time < window.from.getTime()) return false
+  if (window.to && time > window.to.getTime()) return false
+  if (window.experiment && row.experiment !== window.experiment) return false
+  return true
+}
+
+interface Group {
+  key: Pick<GroupStats, 'provider' | 'pair' | 'tier' | 'direction'>
+  swaps: number
+  executeFailures: number
+  completed: number
+  failed: number
+  swapIds: Set<string>
+  feeBips: number[]
+  totalFeeBips: number[]
+  latencyMs: number[]
+  slippageBips: number[]
+}
+
+/**
+ * Fee, success and latency statistics per provider × pair × size tier × direction.
+ * Rows are included when their own timestamp falls within the window.
+ */
+export function computeStats(window: StatsWindow = {}): Stats {
+  const quotesById = new Map(selectRows('quotes').filter(q => q.quoteId).map(q => [String(q.quoteId), q]))
+  const allSwaps = selectRows('swaps')
+  const swapsById = new Map(allSwaps.filter(s => s.swapId).map(s => [String(s.swapId), s]))
+  const allSettlements = selectRows('settlements')
+  const settledSwapIds = new Set(allSettlements.map(s => String(s.swapId)))
+  const groups = new Map<string, Group>()
+
+  const groupFor = (row: Row, inputUsd: number | null): Group => {
+    const provider = String(row.provider)
+    const pair = `${row.inputToken}→${row.outputToken}`
+    const tier = sizeTier(inputUsd)
+    const dir = direction(String(row.inputToken))
+    const id = [provider, pair, tier, dir].join('|')
+    let group = groups.get(id)
+    if (!group) {
+      group = {
+        key: { provider, pair, tier, direction: dir },
+        swaps: 0, executeFailures: 0, completed: 0, failed: 0,
+        swapIds: new Set(),
+        feeBips: [], totalFeeBips: [], latencyMs: [], slippageBips: [],
+      }
+      groups.set(id, group)
+    }
+    return group
+  }
+
+  for (const swap of allSwaps.filter(row => inWindow(row, window))) {
+    const group = groupFor(swap, inputUsdOf(swap))
+    group.swaps++
+    if (swap.swapId) group.swapIds.add(String(swap.swapId))
+  }
+
+  for (const failure of selectRows('failures').filter(row => row.failureStage === 'execute' && inWindow(row, window))) {
+    const quote = failure.quoteId ? quotesById.get(String(failure.quoteId)) : undefined
+    groupFor(failure, inputUsdOf(failure, quote)).executeFailures++
+  }
+
+  for (const settlement of allSettlements.filter(row => inWindow(row, window))) {
+    const swap = settlement.swapId ? swapsById.get(String(settlement.swapId)) : undefined
+    // Tier by the swap's input USD so a swap and its settlement land in the same group
+    const group = groupFor(settlement, swap ? inputUsdOf(swap) : inputUsdOf(settlement))
+    if (settlement.status !== 'completed') {
+      group.failed++
+      continue
+    }
+    group.completed++
+    if (typeof settlement.feeBips === 'number') group.feeBips.push(settlement.feeBips)
+    if (typeof settlement.totalFeeBips === 'number') group.totalFeeBips.push(settlement.totalFeeBips)
+    const latency = swap ? settlementDelayMs(swap, settlement) : null
+    if (latency !== null) group.latencyMs.push(latency)
+    const accuracy = deliveredVsQuotedBips(settlement)
+    if (accuracy !== null) group.slippageBips.push(-accuracy)
+  }
+
+  const stats = [...groups.values()].map((group): GroupStats => {
+    const finished = group.completed + group.failed + group.executeFailures
+    return {
+      ...group.key,
+      swaps: group.swaps,
+      executeFailures: group.executeFailures,
+      completed: group.completed,
+      failed: group.failed,
+      pending: [...group.swapIds].filter(id => !settledSwapIds.has(id)).length,
+      successRate: finished > 0 ? group.completed / finished : null,
+      feeBips: distribution(group.feeBips),
+      totalFeeBips: distribution(group.totalFeeBips),
+      latencyMs: { ...distribution(group.latencyMs), p99: percentile(group.latencyMs, 99) },
+      slippageBips: distribution(group.slippageBips),
+    }
+  })
+
+  // Cheapest first within each pair / tier / direction (groups without fees last)
+  const tierOrder = (tier: string) => {
+    const index = SIZE_TIERS.findIndex(([name]) => name === tier)
+    return index === -1 ? SIZE_TIERS.length : index
+  }
+  stats.sort((a, b) =>
+    a.direction.localeCompare(b.direction)
+    || a.pair.localeCompare(b.pair)
+    || tierOrder(a.tier) - tierOrder(b.tier)
+    || (a.feeBips.p50 ?? Infinity) - (b.feeBips.p50 ?? Infinity)
+    || a.provider.localeCompare(b.provider))
+
+  return {
+    from: window.from?.toISOString() ?? null,
+    to: window.to?.toISOString() ?? null,
+    groups: stats,
+  }
+}
+
+export interface QuoteAccuracyCase {
+  swapId: string
+  timestamp: string
+  deliveredVsQuotedBips: number
+  delayMs: number | null
+}
+
+export interface QuoteAccuracy {
+  provider: string
+  pair: string
+  settlements: number  // completed settlements with both a quoted and a delivered amount
+  deliveredVsQuotedBips: Distribution & { p10: number | null; min: number | null; max: number | null }
+  belowQuote: number   // settlements that delivered less than quoted
+  delayCorrelation: number | null  // Pearson r of settlement delay vs delivered-minus-quoted (null under 3 samples)
+  worst: QuoteAccuracyCase[]       // largest shortfalls first
+}
+
+const WORST_CASES = 5
+
+// Pearson correlation coefficient (null when undefined: too few points or no variance)
+function correlation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null
+  const mx = mean(xs)!
+  const my = mean(ys)!
+  let cov = 0, vx = 0, vy = 0
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my)
+    vx += (xs[i] - mx) ** 2
+    vy += (ys[i] - my) ** 2
+  }
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : null
+}
+
+/**
+ * Quoted vs delivered output per provider × pair for completed settlements in the window
+ */
+export function quoteAccuracy(window: StatsWindow = {}): QuoteAccuracy[] {
+  const swapsById = new Map(selectRows('swaps').filter(s => s.swapId).map(s => [String(s.swapId), s]))
+  const groups = new Map<string, { provider: string; pair: string; cases: QuoteAccuracyCase[] }>()
+
+  for (const settlement of selectRows('settlements')) {
+    if (settlement.status !== 'completed' || !inWindow(settlement, window)) continue
+    const bips = deliveredVsQuotedBips(settlement)
+    if (bips === null) continue
+    const provider = String(settlement.provider)
+    const pair = `${settlement.inputToken}→${settlement.outputToken}`
+    const id = `${provider}|${pair}`
+    const group = groups.get(id) || { provider, pair, cases: [] }
+    const swap = settlement.swapId ? swapsById.get(String(settlement.swapId)) : undefined
+    group.cases.push({
+      swapId: String(settlement.swapId ?? ''),
+      timestamp: String(settlement.timestamp),
+      deliveredVsQuotedBips: bips,
+      delayMs: swap ? settlementDelayMs(swap, settlement) : null,
+    })
+    groups.set(id, group)
+  }
+
+  return [...groups.values()]
+    .map(({ provider, pair, cases }): QuoteAccuracy => {
+      const bips = cases.map(c => c.deliveredVsQuotedBips)
+      const timed = cases.filter(c => c.delayMs !== null)
+      return {
+        provider,
+        pair,
+        settlements: cases.length,
+        deliveredVsQuotedBips: {
+          ...distribution(bips),
+          p10: percentile(bips, 10),
+          min: Math.min(...bips),
+          max: Math.max(...bips),
+        },
+        belowQuote: bips.filter(b => b < 0).length,
+        delayCorrelation: correlation(timed.map(c => c.delayMs!), timed.map(c => c.deliveredVsQuotedBips)),
+        worst: [...cases]
+          .filter(c => c.deliveredVsQuotedBips < 0)
+          .sort((a, b) => a.deliveredVsQuotedBips - b.deliveredVsQuotedBips)
+          .slice(0, WORST_CASES),
+      }
+    })
+    .sort((a, b) => a.pair.localeCompare(b.pair) || a.provider.localeCompare(b.provider))
+}
+
+export interface RepricedFeeGroup {
+  provider: string
+  pair: string
+  methodology: string  // swap-time, settlement-time or midpoint
+  settlements: number  // completed settlements with both a logged and a repriced fee
+  loggedFeeBips: Distribution    // as computed when the settlement was logged (latest prices)
+  repricedFeeBips: Distribution  // from historical prices at the methodology's timestamp
+  differenceBips: Distribution   // repriced minus logged
+}
+
+/**
+ * Logged vs repriced fees per provider × pair × methodology for completed settlements in the window.
+ * Empty until `pnpm backfill` has run.
+ */
+export function repricedFees(window: StatsWindow = {}): RepricedFeeGroup[] {
+  const settlementsById = new Map(selectRows('settlements').map(s => [String(s.id), s]))
+  const groups = new Map<string, { provider: string; pair: string; methodology: string; logged: number[]; repriced: number[] }>()
+
+  for (const repriced of selectRows('repriced_fees')) {
+    const settlement = settlementsById.get(String(repriced.settlementId))
+    if (!settlement || settlement.status !== 'completed' || !inWindow(settlement, window)) continue
+    if (typeof settlement.feeBips !== 'number' || typeof repriced.feeBips !== 'number') continue
+    const provider = String(settlement.provider)
+    const pair = `${settlement.inputToken}→${settlement.outputToken}`
+    const methodology = String(repriced.methodology)
+    const id = `${provider}|${pair}|${methodology}`
+    const group = groups.get(id) || { provider, pair, methodology, logged: [], repriced: [] }
+    group.logged.push(settlement.feeBips)
+    group.repriced.push(repriced.feeBips)
+    groups.set(id, group)
+  }
+
+  return [...groups.values()]
+    .map(({ provider, pair, methodology, logged, repriced }): RepricedFeeGroup => ({
+      provider,
+      pair,
+      methodology,
+      settlements: logged.length,
+      loggedFeeBips: distribution(logged),
+      repricedFeeBips: distribution(repriced),
+      differenceBips: distribution(repriced.map((bips, i) => bips - logged[i])),
+    }))
+    .sort((a, b) => a.pair.localeCompare(b.pair) || a.provider.localeCompare(b.provider) || a.methodology.localeCompare(b.methodology))
+}
+
+export interface ExperimentResult {
+  swaps: number
+  executeFailures: number
+  completed: number
+  failed: number
+  successRate: number | null  // completed / (completed + failed + execute failures)
+  inputUsd: number | null     // mean swap size
+  feeBips: Distribution
+  totalFeeBips: Distribution
+}
+
+export interface ExperimentComparison {
+  experiments: string[]
+  groups: Array<{
+    provider: string
+    pair: string
+    results: Record<string, ExperimentResult | null>  // by experiment name, null if the provider had no swaps in it
+  }>
+}
+
+interface ExperimentTally {
+  swaps: number
+  executeFailures: number
+  completed: number
+  failed: number
+  inputUsd: number[]
+  feeBips: number[]
+  totalFeeBips: number[]
+}
+
+/**
+ * Per provider × pair results of each experiment side by side (ignores window.experiment).
+ * Experiments usually differ in swap size, so groups are not split by size tier.
+ */
+export function compareExperiments(names: string[], window: StatsWindow = {}): ExperimentComparison {
+  const experiments = new Set(names)
+  const matches = (row: Row) => experiments.has(String(row.experiment)) && inWindow(row, { from: window.from, to: window.to })
+  const groups = new Map<string, { provider: string; pair: string; results: Map<string, ExperimentTally> }>()
+
+  const resultFor = (row: Row) => {
+    const provider = String(row.provider)
+    const pair = `${row.inputToken}→${row.outputToken}`
+    const id = `${provider}|${pair}`
+    const group = groups.get(id) || { provider, pair, results: new Map() }
+    groups.set(id, group)
+    const experiment = String(row.experiment)
+    let result = group.results.get(experiment)
+    if (!result) {
+      result = { swaps: 0, executeFailures: 0, completed: 0, failed: 0, inputUsd: [], feeBips: [], totalFeeBips: [] }
+      group.results.set(experiment, result)
+    }
+    return result
+  }
+
+  for (const swap of selectRows('swaps').filter(matches)) {
+    const result = resultFor(swap)
+    result.swaps++
+    const inputUsd = inputUsdOf(swap)
+    if (inputUsd !== null) result.inputUsd.push(inputUsd)
+  }
+  for (const failure of selectRows('failures').filter(row => row.failureStage === 'execute' && matches(row))) {
+    resultFor(failure).executeFailures++
+  }
+  for (const settlement of selectRows('settlements').filter(matches)) {
+    const result = resultFor(settlement)
+    if (settlement.status !== 'completed') {
+      result.failed++
+      continue
+    }
+    result.completed++
+    if (typeof settlement.feeBips === 'number') result.feeBips.push(settlement.feeBips)
+    if (typeof settlement.totalFeeBips === 'number') result.totalFeeBips.push(settlement.totalFeeBips)
+  }
+
+  return {
+    experiments: names,
+    groups: [...groups.values()]
+      .sort((a, b) => a.pair.localeCompare(b.pair) || a.provider.localeCompare(b.provider))
+      .map(({ provider, pair, results }) => ({
+        provider,
+        pair,
+        results: Object.fromEntries(names.map(name => {
+          const result = results.get(name)
+          if (!result) return [name, null]
+          const finished = result.completed + result.failed + result.executeFailures
+          return [name, {
+            swaps: result.swaps,
+            executeFailures: result.executeFailures,
+            completed: result.completed,
+            failed: result.failed,
+            successRate: finished > 0 ? result.completed / finished : null,
+            inputUsd: mean(result.inputUsd),
+            feeBips: distribution(result.feeBips),
+            totalFeeBips: distribution(result.totalFeeBips),
+          }]
+        })),
+      })),
+  }
+}
+
+// Relative window lengths accepted by parseWindow (e.g. '24h', '7d')
+const WINDOW_UNITS: Record<string, number> = { h: 3600_000, d: 86400_000 }
+
+/**
+ * Time window from query parameters: `window` (e.g. 24h, 7d - ending now) or `from`/`to` (ISO dates),
+ * plus an optional `experiment`. Throws on values that don't parse.
+ */
+export function parseWindow(params: URLSearchParams): StatsWindow {
+  const window: StatsWindow = {}
+  const experiment = params.get('experiment')
+  if (experiment) window.experiment = experiment
+  const relative = params.get('window')
+  if (relative) {
+    const match = relative.match(/^(\d+)([hd])$/)
+    if (!match) throw new Error(`Invalid window "${relative}" - use e.g. 24h or 7d`)
+    window.from = new Date(Date.now() - Number(match[1]) * WINDOW_UNITS[match[2]])
+  }
+  for (const name of ['from', 'to'] as const) {
+    const value = params.get(name)
+    if (!value) continue
+    const date = new Date(value)
+    if (isNaN(date.getTime())) throw new Error(`Invalid ${name} date "${value}"`)
+    window[name] = date
+  }
+  return window
+}
@@ -0,0 +1,144 @@
+import 'dotenv/config'
+import type { IncomingMessage, ServerResponse } from 'http'
+import { createHash, timingSafeEqual } from 'crypto'
+import { insertRow, selectRows, type Row } from './db.js'
+
+// Dashboard access control. Two roles:
+//   viewer   - the dashboard and read-only APIs
+//   operator - everything a viewer can do, plus actions that change data (clear, archive, manual swaps, overrides)
+// Tokens are sent as `Authorization: Bearer <token>` or as the password of HTTP Basic auth (the browser's login
+// prompt; the username is only recorded in the audit log). Without a viewer token the read-only side is open, so
+// the dashboard then only listens on loopback; without an operator token operator actions are disabled.
+
+export type Role = 'viewer' | 'operator'
+
+export interface Identity {
+  role: Role | null  // null when the credentials are missing or wrong
+  actor: string  // Basic auth username, 'token' or 'anonymous'
+  ip: string
+}
+
+const VIEWER_TOKEN = process.env.DASHBOARD_VIEWER_TOKEN || ''
+const OPERATOR_TOKEN = process.env.DASHBOARD_OPERATOR_TOKEN || ''
+// Origins allowed to call the API from another site (comma-separated, e.g. https://fees.example.com)
+const ALLOWED_ORIGINS = (process.env.DASHBOARD_ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean)
+
+const REALM = 'fee-comp'
+
+const isLoopback = (host: string) => host === 'localhost' || host === '::1' || /^127\./.test(host)
+
+// Constant-time comparison (hashed so lengths match)
+function tokenMatches(token: string, expected: string): boolean {
+  if (!expected) return false
+  const hash = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(hash(token), hash(expected))
+}
+
+function credentials(req: IncomingMessage): { token: string; user: string | null } | null {
+  const [scheme, value = ''] = (req.headers.authorization || '').split(' ')
+  if (/^bearer$/i.test(scheme)) return { token: value.trim(), user: null }
+  if (/^basic$/i.test(scheme)) {
+    const decoded = Buffer.from(value, 'base64').toString()
+    const sep = decoded.indexOf(':')
+    return { token: decoded.slice(sep + 1), user: decoded.slice(0, sep) || null }
+  }
+  return null
+}
+
+// Who is calling and the role their credentials grant
+function identify(req: IncomingMessage): Identity {
+  const creds = credentials(req)
+  const ip = req.socket.remoteAddress || ''
+  const actor = creds?.user || (creds ? 'token' : 'anonymous')
+  if (creds && tokenMatches(creds.token, OPERATOR_TOKEN)) return { role: 'operator', actor, ip }
+  if ((creds && tokenMatches(creds.token, VIEWER_TOKEN)) || !VIEWER_TOKEN) return { role: 'viewer', actor, ip }
+  return { role: null, actor, ip }
+}
+
+function deny(res: ServerResponse, status: number, error: string) {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify({ error }))
+}
+
+/**
+ * Set CORS headers for allowed origins. Returns false for requests from any other site.
+ */
+export function applyCors(req: IncomingMessage, res: ServerResponse): boolean {
+  const origin = req.headers.origin
+  if (!origin) return true
+  res.setHeader('Vary', 'Origin')
+  if (ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin)
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST')
+    return true
+  }
+  try {
+    return new URL(origin).host === req.headers.host
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check the request has at least the given role, writing a 401/403 response if not.
+ * Denied operator actions are audited when `action` is given.
+ */
+export function authorize(req: IncomingMessage, res: ServerResponse, role: Role, action?: string): Identity | null {
+  const identity = identify(req)
+  if (identity.role === 'operator' || (identity.role === 'viewer' && role === 'viewer')) return identity
+
+  if (action) audit(action, identity, 'denied')
+  if (role === 'operator' && !OPERATOR_TOKEN) {
+    deny(res, 403, 'Operator actions are disabled (DASHBOARD_OPERATOR_TOKEN is not set)')
+  } else if (role === 'operator') {
+    deny(res, 401, 'Operator token required')
+  } else {
+    // Challenge so browsers show their login prompt for the dashboard
+    res.setHeader('WWW-Authenticate', `Basic realm="${REALM}", charset="UTF-8"`)
+    deny(res, 401, 'Authentication required')
+  }
+  return null
+}
+
+/**
+ * Record an operator action (or a denied attempt) in the audit log
+ */
+export function audit(action: string, identity: Identity, outcome: 'ok' | 'denied' | 'error', detail = '') {
+  insertRow('audit_log', {
+    timestamp: new Date().toISOString(),
+    action,
+    outcome,
+    role: identity.role,
+    actor: identity.actor,
+    ip: identity.ip,
+    detail,
+  })
+  if (outcome !== 'ok') console.warn(`🔒 ${action} ${outcome} for ${identity.actor} (${identity.ip})${detail ? ': ' + detail : ''}`)
+}
+
+/**
+ * Audit log entries, newest first
+ */
+export function getAuditLog(limit = 500): Row[] {
+  return selectRows('audit_log').reverse().slice(0, limit)
+}
+
+/**
+ * Address the dashboard listens on (DASHBOARD_HOST): all interfaces with a viewer token, else loopback only.
+ * Null, after logging why, when a non-loopback address is asked for without a viewer token.
+ */
+export function dashboardHost(): string | null {
+  const host = process.env.DASHBOARD_HOST || (VIEWER_TOKEN ? '0.0.0.0' : '127.0.0.1')
+  if (!VIEWER_TOKEN && !isLoopback(host)) {
+    console.error(`❌ Dashboard not started: DASHBOARD_HOST=${host} is reachable from other machines, set DASHBOARD_VIEWER_TOKEN first`)
+    return null
+  }
+  return host
+}
+
+export function logAuthConfig() {
+  console.log(`🔒 Dashboard: viewer ${VIEWER_TOKEN ? 'token required' : 'open on loopback only (no DASHBOARD_VIEWER_TOKEN)'}, operator ${OPERATOR_TOKEN ? 'token required' : 'disabled (no DASHBOARD_OPERATOR_TOKEN)'}`)
+  if (ALLOWED_ORIGINS.length) console.log(`   CORS origins: ${ALLOWED_ORIGINS.join(', ')}`)
+}
@@ -0,0 +1,161 @@
+import { getDb, selectRows, type Row } from './db.js'
+import { getHistoricalPrices, type PriceToken } from './prices.js'
+import { parseTokenAmount, tokenAmountToNumber } from './providers/types.js'
+import { storedAmount } from './csv.js'
+
+// Recompute settlement fees from historical prices at the exact swap/settlement timestamps.
+// Results go to the repriced_fees table (one row per settlement and methodology); the raw
+// quote/swap/settlement rows and the fees logged at the time are left untouched.
+// Usage: pnpm backfill [swap-time|settlement-time|midpoint|all] (default: all)
+//   swap-time:       both sides priced when the input was committed
+//   settlement-time: both sides priced when the payout landed
+//   midpoint:        both sides priced halfway between the two
+
+type Methodology = 'swap-time' | 'settlement-time' | 'midpoint'
+const METHODOLOGIES: Methodology[] = ['swap-time', 'settlement-time', 'midpoint']
+
+const PRICE_SOURCE = 'defillama-historical'
+
+interface RepricedFee {
+  settlementId: number
+  swapId: string | null
+  provider: string
+  inputToken: string
+  outputToken: string
+  methodology: Methodology
+  pricedAt: string
+  inputPrice: number
+  outputPrice: number
+  inputUsd: number
+  outputUsd: number
+  usdLost: number
+  feeBips: number
+}
+
+// Unix seconds to price at for a methodology (settlements without a matching swap row fall back to settlement time)
+function pricingTime(methodology: Methodology, swapMs: number | null, settlementMs: number): number {
+  const start = swapMs ?? settlementMs
+  const ms = methodology === 'swap-time' ? start
+    : methodology === 'settlement-time' ? settlementMs
+    : (start + settlementMs) / 2
+  return Math.floor(ms / 1000)
+}
+
+// Output in base units from the best available column: on-chain verified, provider-reported, then quoted
+function outputUnits(settlement: Row): string | null {
+  const value = settlement.verifiedOutputAmount || settlement.actualOutputAmount || settlement.outputAmount
+  return value ? String(value) : null
+}
+
+async function reprice(settlement: Row, swapMs: number | null, methodology: Methodology): Promise<RepricedFee | null> {
+  const inputToken = String(settlement.inputToken)
+  const outputToken = String(settlement.outputToken)
+  const output = outputUnits(settlement)
+  if (!settlement.inputAmount || !output) return null
+
+  const pricedAtSec = pricingTime(methodology, swapMs, Date.parse(String(settlement.timestamp)))
+  const prices = await getHistoricalPrices(pricedAtSec)
+  const inputPrice = prices[inputToken.toLowerCase() as PriceToken]
+  const outputPrice = prices[outputToken.toLowerCase() as PriceToken]
+  if (!inputPrice || !outputPrice) return null
+
+  const inputUsd = tokenAmountToNumber(parseTokenAmount(String(settlement.inputAmount), inputToken)) * inputPrice
+  const outputUsd = tokenAmountToNumber(storedAmount(output, outputToken)) * outputPrice
+  const usdLost = inputUsd - outputUsd
+
+  return {
+    settlementId: Number(settlement.id),
+    swapId: settlement.swapId ? String(settlement.swapId) : null,
+    provider: String(settlement.provider),
+    inputToken,
+    outputToken,
+    methodology,
+    pricedAt: new Date(pricedAtSec * 1000).toISOString(),
+    inputPrice,
+    outputPrice,
+    inputUsd,
+    outputUsd,
+    usdLost,
+    feeBips: inputUsd > 0 ? (usdLost / inputUsd) * 10000 : 0,
+  }
+}
+
+// Upsert a methodology's results in one transaction, so a re-run never mixes old and new prices. Settlements
+// that couldn't be repriced this run keep their previous row; rows for settlements no longer completed are dropped.
+function saveResults(methodology: Methodology, results: RepricedFee[]) {
+  const db = getDb()
+  const upsert = db.prepare(`
+    INSERT INTO repriced_fees (settlementId, swapId, provider, inputToken, outputToken, methodology, pricedAt,
+      inputPrice, outputPrice, inputUsd, outputUsd, usdLost, feeBips, priceSource, computedAt)
+    VALUES (@settlementId, @swapId, @provider, @inputToken, @outputToken, @methodology, @pricedAt,
+      @inputPrice, @outputPrice, @inputUsd, @outputUsd, @usdLost, @feeBips, @priceSource, @computedAt)
+    ON CONFLICT (settlementId, methodology) DO UPDATE SET
+      swapId = excluded.swapId, provider = excluded.provider, inputToken = excluded.inputToken,
+      outputToken = excluded.outputToken, pricedAt = excluded.pricedAt, inputPrice = excluded.inputPrice,
+      outputPrice = excluded.outputPrice, inputUsd = excluded.inputUsd, outputUsd = excluded.outputUsd,
+      usdLost = excluded.usdLost, feeBips = excluded.feeBips, priceSource = excluded.priceSource,
+      computedAt = excluded.computedAt
+  `)
+  const computedAt = new Date().toISOString()
+  db.transaction(() => {
+    db.prepare(`
+      DELETE FROM repriced_fees WHERE methodology = ?
+        AND settlementId NOT IN (SELECT id FROM settlements WHERE status = 'completed')
+    `).run(methodology)
+    for (const result of results) upsert.run({ ...result, priceSource: PRICE_SOURCE, computedAt })
+  })()
+}
+
+function printSummary(methodology: Methodology, results: RepricedFee[]) {
+  const byProvider = new Map<string, number[]>()
+  for (const result of results) {
+    byProvider.set(result.provider, [...(byProvider.get(result.provider) || []), result.feeBips])
+  }
+  console.log(`\n📊 ${methodology} (${results.length} settlement(s))`)
+  for (const [provider, bips] of [...byProvider.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const avg = bips.reduce((sum, b) => sum + b, 0) / bips.length
+    console.log(`   ${provider.padEnd(14)} avg ${avg.toFixed(1).padStart(7)} bps over ${bips.length}`)
+  }
+}
+
+async function main() {
+  const arg = process.argv[2] || 'all'
+  const methodologies = arg === 'all' ? METHODOLOGIES : METHODOLOGIES.filter(m => m === arg)
+  if (methodologies.length === 0) {
+    console.error(`❌ Unknown methodology "${arg}" - use one of: ${METHODOLOGIES.join(', ')}, all`)
+    process.exit(1)
+  }
+
+  // Swap timestamp per swapId (when the input was committed)
+  const swapTimes = new Map<string, number>()
+  for (const swap of selectRows('swaps')) {
+    if (swap.swapId) swapTimes.set(String(swap.swapId), Date.parse(String(swap.timestamp)))
+  }
+  // Only completed swaps have a real output to price (others would fall back to the quoted output)
+  const settlements = selectRows('settlements').filter(s => s.status === 'completed')
+  console.log(`🔁 Repricing ${settlements.length} completed settlement(s) with historical prices`)
+
+  for (const methodology of methodologies) {
+    const results: RepricedFee[] = []
+    let skipped = 0
+    for (const settlement of settlements) {
+      const swapMs = settlement.swapId ? swapTimes.get(String(settlement.swapId)) ?? null : null
+      try {
+        const result = await reprice(settlement, swapMs, methodology)
+        if (result) results.push(result)
+        else skipped++
+      } catch (err) {
+        skipped++
+        console.warn(`⚠️  ${methodology} settlement ${settlement.id}: ${err instanceof Error ? err.message : err}`)
+      }
+    }
+    saveResults(methodology, results)
+    printSummary(methodology, results)
+    if (skipped) console.log(`   ⏭️  Skipped ${skipped} settlement(s) without amounts or historical prices`)
+  }
+}
+
+main().catch(err => {
+  console.error('❌ Backfill failed:', err)
+  process.exit(1)
+})
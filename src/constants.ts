@@ -32,6 +32,9 @@ export const evmToBtcSwaps: SwapParams[] = [
   // { inputToken: 'CBBTC', outputToken: 'BTC', inputAmount: '0.1' },
   // { inputToken: 'USDC', outputToken: 'BTC', inputAmount: '10000' },
   // { inputToken: 'ETH', outputToken: 'BTC', inputAmount: '3' },
+
+  // // Streaming (THORChain/Maya split into sub-swaps every `interval` blocks, quantity 0 = protocol optimal)
+  // { inputToken: 'USDC', outputToken: 'BTC', inputAmount: '10000', streaming: { interval: 1, quantity: 0 } },
 ]
 
 // BTC → EVM Swaps
@@ -55,4 +58,7 @@ export const btcToEvmSwaps: SwapParams[] = [
   // { inputToken: 'BTC', outputToken: 'CBBTC', inputAmount: '0.1' },
   // { inputToken: 'BTC', outputToken: 'USDC', inputAmount: '0.1' },
   // { inputToken: 'BTC', outputToken: 'ETH', inputAmount: '0.1' },
+
+  // // Streaming (THORChain/Maya split into sub-swaps every `interval` blocks, quantity 0 = protocol optimal)
+  // { inputToken: 'BTC', outputToken: 'USDC', inputAmount: '0.1', streaming: { interval: 1, quantity: 0 } },
 ]
@@ -1,10 +1,76 @@
-import { appendFileSync, existsSync, writeFileSync } from 'fs'
+import { existsSync, readFileSync } from 'fs'
 import { join } from 'path'
-import { type Quote, type SwapResult, type SettlementResult, fromSmallestUnit } from './providers/types.js'
+import {
+  type Quote,
+  type SwapResult,
+  type SettlementResult,
+  type TokenAmount,
+  type FeeComponent,
+  type FeeType,
+  FEE_TYPES,
+  formatTokenAmount,
+  parseTokenAmount,
+  tokenAmount,
+  tokenAmountToNumber,
+} from './providers/types.js'
 import type { TokenPrices } from './prices.js'
+import type { ProviderFailure } from './errors.js'
+import { type Row, type Table, insertRow, selectRows, isImported, recordImport } from './db.js'
+import { publish } from './events.js'
+import { DEFAULT_EXPERIMENT, activeExperiment, swapExperiment } from './experiments.js'
 
-const CSV_FILE = join(process.cwd(), 'data.csv')
-const HEADER = 'timestamp,type,provider,inputToken,outputToken,inputAmount,outputAmount,swapId,txHash,status,payoutTxHash,actualOutputAmount,btcPrice,cbbtcPrice,usdcPrice,ethPrice,relayRequestId,chainflipSwapId,inputUsd,outputUsd,usdLost,feeBips'
+// Quote/swap/settlement rows are stored in SQLite (db.ts); this module builds them and
+// converts to/from the CSV layout existing spreadsheets use.
+// Amount columns: inputAmount is human-readable (e.g. 0.0002), outputAmount/actualOutputAmount are base units (sats/wei)
+// Fee columns: feeBreakdown is "type:amount TOKEN" entries joined by ';', plus USD totals per fee type
+// routeDetails: provider execution parameters (DCA chunks, boost fee) as "key=value;..."
+// Verification columns (settlement rows): on-chain payout amount (base units), provider-reported minus on-chain,
+// and which amount the fee metrics used (onchain > provider > quoted)
+// networkCostUsd: our own BTC miner fees + EVM gas (deposit and approvals) at swap-time prices;
+// totalFeeBips: all-in cost (usdLost + networkCostUsd) relative to inputUsd
+// quoteId/cycleId: link a swap and its settlement to the exact quote, and group rows by scheduler cycle
+// Failure rows: failureStage (quote/execute), errorType (see errors.ts) and the provider's errorMessage
+// Price quality (see prices.ts): priceSources as "btc=defillama+chainlink+kraken;...", and the tokens whose
+// price was reused from a previous fetch (priceStale), hardcoded (priceFallback) or had disagreeing sources (priceDivergent)
+// experiment: the named experiment the row was logged under (see experiments.ts)
+export const CSV_HEADER = 'timestamp,type,provider,inputToken,outputToken,inputAmount,outputAmount,swapId,txHash,status,payoutTxHash,actualOutputAmount,btcPrice,cbbtcPrice,usdcPrice,ethPrice,relayRequestId,chainflipSwapId,inputUsd,outputUsd,usdLost,feeBips,feeBreakdown,networkFeeUsd,protocolFeeUsd,liquidityFeeUsd,affiliateFeeUsd,outboundFeeUsd,routeDetails,verifiedOutputAmount,outputMismatch,outputSource,verificationNote,networkCostUsd,totalFeeBips,quoteId,cycleId,failureStage,errorType,errorMessage,priceSources,priceStale,priceFallback,priceDivergent,experiment'
+const CSV_COLUMNS = CSV_HEADER.split(',')
+
+// Decimal places for numeric columns in the CSV layout
+const COLUMN_DIGITS: Record<string, number> = {
+  btcPrice: 2,
+  cbbtcPrice: 2,
+  usdcPrice: 4,
+  ethPrice: 2,
+  inputUsd: 2,
+  outputUsd: 2,
+  usdLost: 2,
+  feeBips: 0,
+  networkFeeUsd: 4,
+  protocolFeeUsd: 4,
+  liquidityFeeUsd: 4,
+  affiliateFeeUsd: 4,
+  outboundFeeUsd: 4,
+  networkCostUsd: 4,
+  totalFeeBips: 0,
+}
+
+// Row type <-> table
+const TABLES: Record<string, Table> = {
+  quote: 'quotes',
+  swap: 'swaps',
+  settlement: 'settlements',
+  failure: 'failures',
+}
+
+// USD total column per fee type
+const FEE_USD_COLUMNS: Record<FeeType, string> = {
+  network: 'networkFeeUsd',
+  protocol: 'protocolFeeUsd',
+  liquidity: 'liquidityFeeUsd',
+  affiliate: 'affiliateFeeUsd',
+  outbound: 'outboundFeeUsd',
+}
 
 // Helper to get USD price for a token
 function getPriceForToken(token: string, prices: TokenPrices): number {
@@ -17,49 +83,78 @@ function getPriceForToken(token: string, prices: TokenPrices): number {
   return priceMap[token] || 0
 }
 
-function ensureFile() {
-  if (!existsSync(CSV_FILE)) {
-    writeFileSync(CSV_FILE, HEADER + '\n')
+// Amount column formats (see header comment)
+const humanAmount = (amount: TokenAmount) => formatTokenAmount(amount)
+const baseUnits = (amount: TokenAmount) => amount.units.toString()
+
+/**
+ * Read a stored base-unit amount column back as a TokenAmount.
+ * Rows from older CSVs hold human-readable decimals here, so values with a '.' are parsed as such.
+ */
+export function storedAmount(value: string | number, token: string): TokenAmount {
+  const text = String(value)
+  return text.includes('.') ? parseTokenAmount(text, token) : tokenAmount(token, text)
+}
+
+// Price columns shared by quote/swap/settlement rows
+function priceColumns(prices: TokenPrices): Row {
+  const { quality } = prices
+  return {
+    btcPrice: prices.btc,
+    cbbtcPrice: prices.cbbtc,
+    usdcPrice: prices.usdc,
+    ethPrice: prices.eth,
+    priceSources: quality
+      ? Object.entries(quality.sources).map(([token, sources]) => `${token}=${sources.join('+') || 'none'}`).join(';')
+      : null,
+    priceStale: quality?.stale.join(';') || null,
+    priceFallback: quality?.fallback.join(';') || null,
+    priceDivergent: quality?.divergent.join(';') || null,
+  }
+}
+
+// Fill in USD values for fee components the provider didn't price
+function priceFees(fees: FeeComponent[], prices: TokenPrices): FeeComponent[] {
+  return fees.map(fee => fee.usd !== null
+    ? fee
+    : { ...fee, usd: tokenAmountToNumber(fee.amount) * getPriceForToken(fee.amount.token, prices) })
+}
+
+// Fee breakdown columns: "type:amount TOKEN;..." plus USD totals per fee type
+function feeColumns(fees: FeeComponent[]): Row {
+  const columns: Row = {
+    feeBreakdown: fees.map(fee => `${fee.type}:${formatTokenAmount(fee.amount)} ${fee.amount.token}`).join(';'),
   }
+  for (const type of FEE_TYPES) {
+    const ofType = fees.filter(fee => fee.type === type)
+    columns[FEE_USD_COLUMNS[type]] = ofType.length ? ofType.reduce((sum, fee) => sum + (fee.usd || 0), 0) : null
+  }
+  return columns
 }
 
 export function logQuote(quote: Quote, prices: TokenPrices) {
-  ensureFile()
-  const row = [
-    new Date().toISOString(),
-    'quote',
-    quote.provider,
-    quote.inputToken,
-    quote.outputToken,
-    quote.inputAmount,
-    quote.outputAmount,
-    '',  // swapId
-    '',  // txHash
-    '',  // status
-    '',  // payoutTxHash
-    '',  // actualOutputAmount
-    prices.btc.toFixed(2),
-    prices.cbbtc.toFixed(2),
-    prices.usdc.toFixed(4),
-    prices.eth.toFixed(2),
-    '',  // relayRequestId
-    '',  // chainflipSwapId
-    '',  // inputUsd
-    '',  // outputUsd
-    '',  // usdLost
-    '',  // feeBips
-  ].join(',')
-  appendFileSync(CSV_FILE, row + '\n')
+  quote.fees = priceFees(quote.fees, prices)
+  storeRow('quote', {
+    timestamp: new Date().toISOString(),
+    provider: quote.provider,
+    inputToken: quote.inputToken,
+    outputToken: quote.outputToken,
+    inputAmount: humanAmount(quote.inputAmount),
+    outputAmount: baseUnits(quote.outputAmount),
+    ...priceColumns(prices),
+    ...feeColumns(quote.fees),
+    routeDetails: quote.routeDetails || null,
+    quoteId: quote.quoteId || null,
+    cycleId: quote.cycleId || null,
+  })
 }
 
 export function logSwap(swap: SwapResult, prices: TokenPrices) {
-  ensureFile()
-  
   // Calculate input USD value and store on swap for later settlement calculation
   const inputPrice = getPriceForToken(swap.inputToken, prices)
-  const inputUsd = parseFloat(swap.inputAmount) * inputPrice
+  const inputUsd = tokenAmountToNumber(swap.inputAmount) * inputPrice
   swap.inputUsd = inputUsd  // Store for settlement tracking
-  
+
   // Store swap-time prices for consistent fee calculation (ignoring market drift)
   swap.swapPrices = {
     btc: prices.btc,
@@ -67,86 +162,252 @@ export function logSwap(swap: SwapResult, prices: TokenPrices) {
     usdc: prices.usdc,
     eth: prices.eth,
   }
-  
-  const row = [
-    new Date(swap.timestamp).toISOString(),
-    'swap',
-    swap.provider,
-    swap.inputToken,
-    swap.outputToken,
-    swap.inputAmount,
-    swap.outputAmount,
-    swap.swapId || '',
-    swap.txHash || '',
-    'pending',
-    '',  // payoutTxHash
-    '',  // actualOutputAmount
-    prices.btc.toFixed(2),
-    prices.cbbtc.toFixed(2),
-    prices.usdc.toFixed(4),
-    prices.eth.toFixed(2),
-    swap.relayRequestId || '',
-    '',  // chainflipSwapId - populated on settlement
-    inputUsd.toFixed(2),  // inputUsd
-    '',  // outputUsd - calculated on settlement
-    '',  // usdLost - calculated on settlement
-    '',  // feeBips - calculated on settlement
-  ].join(',')
-  appendFileSync(CSV_FILE, row + '\n')
+
+  // Price our own network costs now so settlement uses swap-time prices
+  swap.networkCostUsd = (swap.networkCosts || [])
+    .reduce((sum, cost) => sum + tokenAmountToNumber(cost) * getPriceForToken(cost.token, prices), 0)
+
+  storeRow('swap', {
+    timestamp: new Date(swap.timestamp).toISOString(),
+    provider: swap.provider,
+    inputToken: swap.inputToken,
+    outputToken: swap.outputToken,
+    inputAmount: humanAmount(swap.inputAmount),
+    outputAmount: baseUnits(swap.outputAmount),
+    swapId: swap.swapId,
+    txHash: swap.txHash,
+    status: 'pending',
+    ...priceColumns(prices),
+    relayRequestId: swap.relayRequestId || null,
+    inputUsd,
+    routeDetails: swap.routeDetails || null,
+    networkCostUsd: swap.networkCostUsd,
+    quoteId: swap.quoteId || null,
+    cycleId: swap.cycleId || null,
+  })
 }
 
 export function logSettlement(settlement: SettlementResult, swap: SwapResult, prices: TokenPrices) {
-  ensureFile()
-  
-  // Calculate fee metrics
-  // Convert actual output amount from smallest unit to human-readable
-  const actualOutputHuman = settlement.actualOutputAmount 
-    ? parseFloat(fromSmallestUnit(settlement.actualOutputAmount, swap.outputToken))
-    : parseFloat(swap.outputAmount)
-  
+  // Calculate fee metrics from the best available output: on-chain verified, provider-reported, then quoted
+  const outputSource = settlement.verifiedOutputAmount ? 'onchain' : settlement.actualOutputAmount ? 'provider' : 'quoted'
+  const outputAmount = settlement.verifiedOutputAmount || settlement.actualOutputAmount || swap.outputAmount
+  if (outputSource === 'quoted' && settlement.status === 'completed') {
+    console.warn(`   ⚠️ ${swap.provider} ${settlement.swapId.slice(0, 16)}...: no reported or on-chain output, fees use the quoted amount`)
+  }
+  const actualOutputHuman = tokenAmountToNumber(outputAmount)
+
   // Direction-aware pricing for fee calculation
   // - BTC input (BTC->EVM): EVM swap happens at settlement time, use settlement prices for output
   // - EVM input (EVM->BTC): price is locked at swap time, use swap prices for output
   const isBtcInput = swap.inputToken === 'BTC'
   const swapTimePrices = swap.swapPrices || prices
-  
+
   // Input: always use swap-time prices (when input was committed)
   const inputPrice = getPriceForToken(swap.inputToken, swapTimePrices as TokenPrices)
-  
+
   // Output: depends on direction
-  const outputPrice = isBtcInput 
+  const outputPrice = isBtcInput
     ? getPriceForToken(swap.outputToken, prices)  // BTC->EVM: use settlement prices
     : getPriceForToken(swap.outputToken, swapTimePrices as TokenPrices)  // EVM->BTC: use swap prices
-  
+
   // Use stored inputUsd from swap if available, otherwise recalculate with swap-time prices
-  const inputUsd = swap.inputUsd || (parseFloat(swap.inputAmount) * inputPrice)
+  const inputUsd = swap.inputUsd || (tokenAmountToNumber(swap.inputAmount) * inputPrice)
   const outputUsd = actualOutputHuman * outputPrice
   const usdLost = inputUsd - outputUsd
   const feeBips = inputUsd > 0 ? (usdLost / inputUsd) * 10000 : 0
-  
-  const row = [
-    new Date(settlement.settledAt || Date.now()).toISOString(),
-    'settlement',
-    swap.provider,
-    swap.inputToken,
-    swap.outputToken,
-    swap.inputAmount,
-    swap.outputAmount,
-    settlement.swapId,
-    swap.txHash || '',
-    settlement.status,
-    settlement.payoutTxHash || '',
-    settlement.actualOutputAmount || '',
-    prices.btc.toFixed(2),
-    prices.cbbtc.toFixed(2),
-    prices.usdc.toFixed(4),
-    prices.eth.toFixed(2),
-    swap.relayRequestId || '',
-    settlement.chainflipSwapId || '',
-    inputUsd.toFixed(2),
-    outputUsd.toFixed(2),
-    usdLost.toFixed(2),
-    feeBips.toFixed(0),
-  ].join(',')
-  appendFileSync(CSV_FILE, row + '\n')
+
+  // All-in cost including our own miner fees / gas (unknown for swaps logged before this was tracked)
+  const networkCostUsd = swap.networkCostUsd
+  const totalFeeBips = networkCostUsd !== undefined && inputUsd > 0
+    ? ((usdLost + networkCostUsd) / inputUsd) * 10000
+    : null
+
+  storeRow('settlement', {
+    timestamp: new Date(settlement.settledAt || Date.now()).toISOString(),
+    provider: swap.provider,
+    inputToken: swap.inputToken,
+    outputToken: swap.outputToken,
+    inputAmount: humanAmount(swap.inputAmount),
+    outputAmount: baseUnits(swap.outputAmount),
+    swapId: settlement.swapId,
+    txHash: swap.txHash,
+    status: settlement.status,
+    payoutTxHash: settlement.payoutTxHash,
+    actualOutputAmount: settlement.actualOutputAmount ? baseUnits(settlement.actualOutputAmount) : null,
+    ...priceColumns(prices),
+    relayRequestId: swap.relayRequestId || null,
+    chainflipSwapId: settlement.chainflipSwapId || null,
+    inputUsd,
+    outputUsd,
+    usdLost,
+    feeBips,
+    routeDetails: settlement.routeDetails || swap.routeDetails || null,
+    verifiedOutputAmount: settlement.verifiedOutputAmount ? baseUnits(settlement.verifiedOutputAmount) : null,
+    outputMismatch: settlement.outputMismatch != null ? settlement.outputMismatch.toString() : null,
+    outputSource,
+    verificationNote: settlement.verificationNote || null,
+    networkCostUsd: networkCostUsd ?? null,
+    totalFeeBips,
+    quoteId: swap.quoteId || null,
+    cycleId: swap.cycleId || null,
+    experiment: swapExperiment(settlement.swapId),
+  })
+}
+
+export function logFailure(failure: ProviderFailure) {
+  storeRow('failure', {
+    timestamp: new Date().toISOString(),
+    provider: failure.provider,
+    inputToken: failure.inputToken,
+    outputToken: failure.outputToken,
+    inputAmount: failure.inputAmount,
+    failureStage: failure.stage,
+    errorType: failure.errorType,
+    errorMessage: failure.errorMessage,
+    quoteId: failure.quoteId || null,
+    cycleId: failure.cycleId || null,
+  })
+}
+
+// ============================================================================
+// CSV LAYOUT (reading rows back, export, legacy import)
+// ============================================================================
+
+// Format a stored value for the CSV layout ('' for NULL, fixed decimals for numeric columns)
+function formatValue(column: string, value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'number' && column in COLUMN_DIGITS) return value.toFixed(COLUMN_DIGITS[column])
+  return String(value)
+}
+
+// A stored row in the CSV column layout
+function toRecord(type: string, row: Row): Record<string, string> {
+  const record: Record<string, string> = {}
+  for (const column of CSV_COLUMNS) {
+    record[column] = column === 'type' ? type : formatValue(column, row[column])
+  }
+  return record
+}
+
+// Insert a new row under the active experiment (unless set) and publish it to live dashboards (see events.ts)
+function storeRow(type: string, row: Row) {
+  const stored = { ...row, experiment: row.experiment ?? activeExperiment() }
+  insertRow(TABLES[type], stored)
+  publish({ type: 'row', row: toRecord(type, stored) })
+}
+
+/**
+ * All quote/swap/settlement/failure rows in the CSV column layout (string values, oldest first),
+ * optionally only those of one experiment
+ */
+export function getDataRows(experiment?: string): Record<string, string>[] {
+  const rows = Object.entries(TABLES).flatMap(([type, table]) =>
+    selectRows(table)
+      .filter(row => !experiment || row.experiment === experiment)
+      .map(row => toRecord(type, row)))
+  // ISO timestamps sort chronologically; sort is stable so same-instant rows keep table order
+  return rows.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+}
+
+// Quote a CSV field if it contains a delimiter, quote or newline
+function escapeField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Export all rows (or one experiment's) as CSV in the current column layout
+ */
+export function exportCsv(experiment?: string): string {
+  const lines = getDataRows(experiment).map(row => CSV_COLUMNS.map(column => escapeField(row[column])).join(','))
+  return [CSV_HEADER, ...lines].join('\n') + '\n'
+}
+
+/**
+ * Parse CSV content into rows of fields (handles quoted fields, escaped quotes and CRLF)
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(value => value !== ''))
+}
+
+// Read a CSV file into records keyed by its own header (older files have fewer/different columns)
+function readCsvRecords(filepath: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(readFileSync(filepath, 'utf-8'))
+  if (!header) return []
+  return rows.map(values => Object.fromEntries(header.map((column, i) => [column, values[i] ?? ''])))
+}
+
+// Legacy append-only files imported once into the database
+const LEGACY_DATA_FILES = ['data.csv', 'data_old_test.csv']
+const LEGACY_LIFECYCLE_FILE = 'lifecycle.csv'
+
+/**
+ * One-time import of the legacy CSV files. Each file is imported at most once (tracked in csv_imports);
+ * columns the schema doesn't have (e.g. feeUsd/feePercent in data_old_test.csv) are dropped and reported.
+ */
+export function importLegacyCsv() {
+  for (const file of [...LEGACY_DATA_FILES, LEGACY_LIFECYCLE_FILE]) {
+    const filepath = join(process.cwd(), file)
+    if (!existsSync(filepath) || isImported(file)) continue
+
+    const records = readCsvRecords(filepath)
+    const dropped = new Set<string>()
+    let skipped = 0
+
+    recordImport(file, () => {
+      let imported = 0
+      for (const record of records) {
+        const table = file === LEGACY_LIFECYCLE_FILE ? 'status_events' : TABLES[record.type]
+        if (!table) {
+          skipped++
+          continue
+        }
+        const { type: _type, ...values } = record
+        // Legacy data rows predate experiments
+        const row = table === 'status_events' ? values : { ...values, experiment: values.experiment || DEFAULT_EXPERIMENT }
+        insertRow(table, row).forEach(column => dropped.add(column))
+        imported++
+      }
+      return imported
+    })
+
+    console.log(`🗄️  Imported ${records.length - skipped} row(s) from ${file}${skipped ? ` (${skipped} with unknown type skipped)` : ''}`)
+    if (dropped.size) {
+      console.log(`   Dropped columns not in the schema: ${[...dropped].join(', ')}`)
+    }
+  }
 }
@@ -0,0 +1,312 @@
+import Database from 'better-sqlite3'
+import { join } from 'path'
+
+// Embedded SQLite store for quotes, swaps, settlements and swap status events.
+// Columns use the same names as the CSV export (see csv.ts) so rows map 1:1 onto the spreadsheet layout.
+const DB_FILE = join(process.cwd(), 'data.db')
+
+export type Table = 'quotes' | 'swaps' | 'settlements' | 'failures' | 'status_events' | 'repriced_fees' | 'audit_log' | 'experiments'
+
+// A stored row: column name -> value (TEXT columns as strings, REAL columns as numbers)
+export type Row = Record<string, string | number | null>
+
+interface Migration {
+  version: number
+  description: string
+  sql: string
+}
+
+// Versioned schema changes - append only, never edit an applied migration.
+// The applied version is tracked in PRAGMA user_version.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'quotes, swaps, settlements, status events and CSV import log',
+    sql: `
+      CREATE TABLE quotes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        inputToken TEXT NOT NULL,
+        outputToken TEXT NOT NULL,
+        inputAmount TEXT,
+        outputAmount TEXT,
+        btcPrice REAL,
+        cbbtcPrice REAL,
+        usdcPrice REAL,
+        ethPrice REAL,
+        feeBreakdown TEXT,
+        networkFeeUsd REAL,
+        protocolFeeUsd REAL,
+        liquidityFeeUsd REAL,
+        affiliateFeeUsd REAL,
+        outboundFeeUsd REAL,
+        routeDetails TEXT
+      );
+
+      CREATE TABLE swaps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        inputToken TEXT NOT NULL,
+        outputToken TEXT NOT NULL,
+        inputAmount TEXT,
+        outputAmount TEXT,
+        swapId TEXT,
+        txHash TEXT,
+        status TEXT,
+        btcPrice REAL,
+        cbbtcPrice REAL,
+        usdcPrice REAL,
+        ethPrice REAL,
+        relayRequestId TEXT,
+        inputUsd REAL,
+        routeDetails TEXT,
+        networkCostUsd REAL
+      );
+      CREATE INDEX swaps_swapId ON swaps (swapId);
+
+      CREATE TABLE settlements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        inputToken TEXT NOT NULL,
+        outputToken TEXT NOT NULL,
+        inputAmount TEXT,
+        outputAmount TEXT,
+        swapId TEXT,
+        txHash TEXT,
+        status TEXT,
+        payoutTxHash TEXT,
+        actualOutputAmount TEXT,
+        btcPrice REAL,
+        cbbtcPrice REAL,
+        usdcPrice REAL,
+        ethPrice REAL,
+        relayRequestId TEXT,
+        chainflipSwapId TEXT,
+        inputUsd REAL,
+        outputUsd REAL,
+        usdLost REAL,
+        feeBips REAL,
+        routeDetails TEXT,
+        verifiedOutputAmount TEXT,
+        outputMismatch TEXT,
+        outputSource TEXT,
+        verificationNote TEXT,
+        networkCostUsd REAL,
+        totalFeeBips REAL
+      );
+      CREATE INDEX settlements_swapId ON settlements (swapId);
+
+      CREATE TABLE status_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        swapId TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        detail TEXT
+      );
+      CREATE INDEX status_events_swapId ON status_events (swapId);
+
+      CREATE TABLE csv_imports (
+        file TEXT PRIMARY KEY,
+        importedAt TEXT NOT NULL,
+        rows INTEGER NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    description: 'quoteId and cycleId linkage',
+    sql: `
+      ALTER TABLE quotes ADD COLUMN quoteId TEXT;
+      ALTER TABLE quotes ADD COLUMN cycleId TEXT;
+      ALTER TABLE swaps ADD COLUMN quoteId TEXT;
+      ALTER TABLE swaps ADD COLUMN cycleId TEXT;
+      ALTER TABLE settlements ADD COLUMN quoteId TEXT;
+      ALTER TABLE settlements ADD COLUMN cycleId TEXT;
+      CREATE UNIQUE INDEX quotes_quoteId ON quotes (quoteId);
+      CREATE INDEX quotes_cycleId ON quotes (cycleId);
+      CREATE INDEX swaps_cycleId ON swaps (cycleId);
+      CREATE INDEX settlements_cycleId ON settlements (cycleId);
+    `,
+  },
+  {
+    version: 3,
+    description: 'failed quotes and executions',
+    sql: `
+      CREATE TABLE failures (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        inputToken TEXT NOT NULL,
+        outputToken TEXT NOT NULL,
+        inputAmount TEXT,
+        failureStage TEXT NOT NULL,
+        errorType TEXT NOT NULL,
+        errorMessage TEXT,
+        quoteId TEXT,
+        cycleId TEXT
+      );
+      CREATE INDEX failures_provider ON failures (provider, failureStage);
+      CREATE INDEX failures_cycleId ON failures (cycleId);
+    `,
+  },
+  {
+    version: 4,
+    description: 'price source and quality columns',
+    sql: ['quotes', 'swaps', 'settlements'].map(table => `
+      ALTER TABLE ${table} ADD COLUMN priceSources TEXT;
+      ALTER TABLE ${table} ADD COLUMN priceStale TEXT;
+      ALTER TABLE ${table} ADD COLUMN priceFallback TEXT;
+      ALTER TABLE ${table} ADD COLUMN priceDivergent TEXT;
+    `).join(''),
+  },
+  {
+    version: 5,
+    description: 'fees recomputed from historical prices',
+    sql: `
+      CREATE TABLE repriced_fees (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        settlementId INTEGER NOT NULL REFERENCES settlements (id),
+        swapId TEXT,
+        provider TEXT NOT NULL,
+        inputToken TEXT NOT NULL,
+        outputToken TEXT NOT NULL,
+        methodology TEXT NOT NULL,
+        pricedAt TEXT NOT NULL,
+        inputPrice REAL,
+        outputPrice REAL,
+        inputUsd REAL,
+        outputUsd REAL,
+        usdLost REAL,
+        feeBips REAL,
+        priceSource TEXT,
+        computedAt TEXT NOT NULL,
+        UNIQUE (settlementId, methodology)
+      );
+    `,
+  },
+  {
+    version: 6,
+    description: 'operator audit log',
+    sql: `
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        action TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        role TEXT,
+        actor TEXT,
+        ip TEXT,
+        detail TEXT
+      );
+    `,
+  },
+  {
+    version: 7,
+    description: 'named experiments',
+    sql: `
+      CREATE TABLE experiments (
+        name TEXT PRIMARY KEY,
+        createdAt TEXT NOT NULL,
+        archivedAt TEXT,
+        note TEXT
+      );
+      INSERT INTO experiments (name, createdAt) VALUES ('default', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+    ` + ['quotes', 'swaps', 'settlements', 'failures'].map(table => `
+      ALTER TABLE ${table} ADD COLUMN experiment TEXT;
+      UPDATE ${table} SET experiment = 'default';
+      CREATE INDEX ${table}_experiment ON ${table} (experiment);
+    `).join(''),
+  },
+]
+
+let db: Database.Database | null = null
+
+/**
+ * Open the database (once per process), applying any pending migrations
+ */
+export function getDb(): Database.Database {
+  if (db) return db
+  db = new Database(DB_FILE)
+  db.pragma('journal_mode = WAL')
+  migrate(db)
+  return db
+}
+
+function migrate(database: Database.Database) {
+  const current = database.pragma('user_version', { simple: true }) as number
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue
+    database.transaction(() => {
+      database.exec(migration.sql)
+      database.pragma(`user_version = ${migration.version}`)
+    })()
+    console.log(`🗄️  Applied migration ${migration.version}: ${migration.description}`)
+  }
+}
+
+// Column name -> declared type per table (from the live schema, so later migrations are picked up)
+const columnCache = new Map<Table, Map<string, string>>()
+
+function tableColumns(table: Table): Map<string, string> {
+  let columns = columnCache.get(table)
+  if (!columns) {
+    const info = getDb().pragma(`table_info(${table})`) as Array<{ name: string; type: string }>
+    columns = new Map(info.filter(c => c.name !== 'id').map(c => [c.name, c.type]))
+    columnCache.set(table, columns)
+  }
+  return columns
+}
+
+// Coerce a value to the column's type: '' is stored as NULL, REAL columns as numbers
+function coerce(value: string | number | null | undefined, type: string): string | number | null {
+  if (value === undefined || value === null || value === '') return null
+  if (type === 'REAL') {
+    const num = typeof value === 'number' ? value : parseFloat(value)
+    return Number.isFinite(num) ? num : null
+  }
+  return String(value)
+}
+
+/**
+ * Insert a row, keeping only the columns the table has. Returns the names of dropped columns.
+ */
+export function insertRow(table: Table, row: Row): string[] {
+  const columns = tableColumns(table)
+  const names = Object.keys(row).filter(name => columns.has(name))
+  const dropped = Object.keys(row).filter(name => !columns.has(name) && row[name] !== '' && row[name] !== null)
+  const values = Object.fromEntries(names.map(name => [name, coerce(row[name], columns.get(name)!)]))
+  getDb()
+    .prepare(`INSERT INTO ${table} (${names.join(', ')}) VALUES (${names.map(n => '@' + n).join(', ')})`)
+    .run(values)
+  return dropped
+}
+
+/**
+ * All rows of a table in insertion order
+ */
+export function selectRows(table: Table): Row[] {
+  return getDb().prepare(`SELECT * FROM ${table} ORDER BY id`).all() as Row[]
+}
+
+/**
+ * Whether a CSV file has already been imported (see csv.ts importLegacyCsv)
+ */
+export function isImported(file: string): boolean {
+  return !!getDb().prepare('SELECT 1 FROM csv_imports WHERE file = ?').get(file)
+}
+
+/**
+ * Insert rows from an imported CSV file in one transaction and record the import
+ */
+export function recordImport(file: string, insert: () => number) {
+  const database = getDb()
+  database.transaction(() => {
+    const rows = insert()
+    database.prepare('INSERT INTO csv_imports (file, importedAt, rows) VALUES (?, ?, ?)')
+      .run(file, new Date().toISOString(), rows)
+  })()
+}
@@ -0,0 +1,66 @@
+// Provider failure categories (quote and execution), so reliability can be compared across providers
+export type ErrorType =
+  | 'unsupported_pair'
+  | 'below_minimum'
+  | 'no_liquidity'
+  | 'rate_limited'
+  | 'network_timeout'
+  | 'insufficient_funds'
+  | 'utxo_conflict'
+  | 'unknown'
+
+export const ERROR_TYPES: ErrorType[] = [
+  'unsupported_pair',
+  'below_minimum',
+  'no_liquidity',
+  'rate_limited',
+  'network_timeout',
+  'insufficient_funds',
+  'utxo_conflict',
+  'unknown',
+]
+
+export type FailureStage = 'quote' | 'execute'
+
+export interface ProviderFailure {
+  provider: string
+  stage: FailureStage
+  inputToken: string
+  outputToken: string
+  inputAmount: string
+  errorType: ErrorType
+  errorMessage: string
+  quoteId?: string  // set for execution failures
+  cycleId?: string
+}
+
+// Message patterns per category, checked in order (first match wins).
+// UTXO conflicts and insufficient funds come first: their messages can also mention amounts or minimums.
+const ERROR_PATTERNS: Array<[ErrorType, RegExp]> = [
+  ['utxo_conflict', /utxo conflict|no available utxos|txn-mempool-conflict|bad-txns-inputs-missingorspent|replacement transaction|already spent/i],
+  ['insufficient_funds', /insufficient (funds|balance)|exceeds (the )?balance|not enough (funds|balance)|no utxos found/i],
+  ['unsupported_pair', /not supported|unsupported|no route|route not found|invalid (asset|token|pair)|halted|trading is paused/i],
+  ['below_minimum', /dust threshold|below (the )?min|minimum|too small|amount too low|less than min/i],
+  ['no_liquidity', /liquidity|no (quote|quotes|solver|solvers) (available|found)|not enough depth|pool (is )?(empty|not available)/i],
+  ['rate_limited', /rate limit|too many requests|\b429\b|quota exceeded|throttl/i],
+  ['network_timeout', /timed? ?out|timeout|etimedout|econnreset|econnrefused|enotfound|socket hang up|fetch failed|network error|\b50[234]\b/i],
+]
+
+/**
+ * Categorise a provider error from its message
+ */
+export function categorizeError(err: unknown): ErrorType {
+  const message = errorMessage(err)
+  for (const [type, pattern] of ERROR_PATTERNS) {
+    if (pattern.test(message)) return type
+  }
+  return 'unknown'
+}
+
+/**
+ * Error message as a single line (SDK errors may be objects or carry newlines)
+ */
+export function errorMessage(err: unknown): string {
+  const message = err instanceof Error ? err.message : typeof err === 'string' ? err : JSON.stringify(err)
+  return (message || 'unknown error').replace(/\s+/g, ' ').trim()
+}
@@ -0,0 +1,27 @@
+import { EventEmitter } from 'events'
+import type { BalanceResult } from './account.js'
+
+// In-process event bus for live dashboard updates (streamed to browsers by /api/events).
+// Loggers and trackers publish as things happen; subscribers must not throw.
+
+export type LiveEvent =
+  | { type: 'row'; row: Record<string, string> }  // quote/swap/settlement/failure row in the CSV layout
+  | { type: 'status'; swapId: string; provider: string; stage: string; detail: string; at: number }
+  | { type: 'balances'; balances: BalanceResult }
+  | { type: 'chainflip-id'; swapId: string; numericSwapId: string }
+  | { type: 'experiment'; name: string; archived: string }  // a new experiment was started
+
+const bus = new EventEmitter()
+bus.setMaxListeners(0)  // one listener per connected dashboard
+
+export function publish(event: LiveEvent) {
+  bus.emit('event', event)
+}
+
+/**
+ * Listen for all events. Returns an unsubscribe function.
+ */
+export function subscribe(listener: (event: LiveEvent) => void): () => void {
+  bus.on('event', listener)
+  return () => bus.off('event', listener)
+}
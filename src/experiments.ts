@@ -0,0 +1,105 @@
+import { getDb } from './db.js'
+import { publish } from './events.js'
+
+// Named experiments (e.g. "Jan $20 tier", "Feb $1k tier"): every quote, swap, settlement and failure row is tagged
+// with the experiment that was active when it was logged (settlements with their swap's). One experiment is active
+// at a time; starting another archives it. Archived rows are never deleted and stay queryable (?experiment=).
+
+// Rows logged before experiments existed
+export const DEFAULT_EXPERIMENT = 'default'
+const MAX_NAME_LENGTH = 80
+
+export interface Experiment {
+  name: string
+  createdAt: string
+  archivedAt: string | null
+  note: string | null
+  active: boolean
+  quotes: number
+  swaps: number
+  settlements: number
+  failures: number
+  firstAt: string | null  // earliest / latest row
+  lastAt: string | null
+}
+
+const DATA_TABLES = ['quotes', 'swaps', 'settlements', 'failures'] as const
+
+let active: string | null = null
+
+export function activeExperiment(): string {
+  if (active === null) {
+    const row = getDb().prepare('SELECT name FROM experiments WHERE archivedAt IS NULL').get() as { name: string } | undefined
+    active = row?.name ?? DEFAULT_EXPERIMENT
+  }
+  return active
+}
+
+/**
+ * Experiment a settlement belongs to: its swap's, else the active one
+ */
+export function swapExperiment(swapId: string): string {
+  const row = getDb().prepare('SELECT experiment FROM swaps WHERE swapId = ? ORDER BY id LIMIT 1').get(swapId) as { experiment: string | null } | undefined
+  return row?.experiment || activeExperiment()
+}
+
+/**
+ * All experiments with row counts, newest first
+ */
+export function listExperiments(): Experiment[] {
+  const db = getDb()
+  const counts = new Map<string, Record<string, number>>()
+  const spans = new Map<string, { firstAt: string; lastAt: string }>()
+  for (const table of DATA_TABLES) {
+    const rows = db.prepare(`SELECT experiment, COUNT(*) AS count, MIN(timestamp) AS firstAt, MAX(timestamp) AS lastAt FROM ${table} GROUP BY experiment`)
+      .all() as Array<{ experiment: string; count: number; firstAt: string; lastAt: string }>
+    for (const row of rows) {
+      counts.set(row.experiment, { ...counts.get(row.experiment), [table]: row.count })
+      const span = spans.get(row.experiment)
+      spans.set(row.experiment, {
+        firstAt: span && span.firstAt < row.firstAt ? span.firstAt : row.firstAt,
+        lastAt: span && span.lastAt > row.lastAt ? span.lastAt : row.lastAt,
+      })
+    }
+  }
+
+  const experiments = db.prepare('SELECT * FROM experiments ORDER BY createdAt DESC')
+    .all() as Array<{ name: string; createdAt: string; archivedAt: string | null; note: string | null }>
+  return experiments.map(experiment => ({
+    ...experiment,
+    active: experiment.archivedAt === null,
+    quotes: counts.get(experiment.name)?.quotes ?? 0,
+    swaps: counts.get(experiment.name)?.swaps ?? 0,
+    settlements: counts.get(experiment.name)?.settlements ?? 0,
+    failures: counts.get(experiment.name)?.failures ?? 0,
+    firstAt: spans.get(experiment.name)?.firstAt ?? null,
+    lastAt: spans.get(experiment.name)?.lastAt ?? null,
+  }))
+}
+
+/**
+ * Make `name` the active experiment, archiving the current one. An archived experiment of the same name is
+ * resumed. New rows are logged under it from now on; swaps still settling keep their own experiment.
+ */
+export function startExperiment(name: string, note: string | null = null): Experiment {
+  const trimmed = name.trim()
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH || trimmed.includes(',')) {
+    throw new Error(`Experiment name must be 1-${MAX_NAME_LENGTH} characters without commas`)
+  }
+  const previous = activeExperiment()
+  if (trimmed !== previous) {
+    const db = getDb()
+    const now = new Date().toISOString()
+    db.transaction(() => {
+      db.prepare('UPDATE experiments SET archivedAt = ? WHERE archivedAt IS NULL').run(now)
+      db.prepare(`
+        INSERT INTO experiments (name, createdAt, note) VALUES (?, ?, ?)
+        ON CONFLICT (name) DO UPDATE SET archivedAt = NULL, note = COALESCE(excluded.note, note)
+      `).run(trimmed, now, note)
+    })()
+    active = trimmed
+    console.log(`🧪 Experiment "${trimmed}" started (archived "${previous}")`)
+    publish({ type: 'experiment', name: trimmed, archived: previous })
+  }
+  return listExperiments().find(experiment => experiment.name === trimmed)!
+}
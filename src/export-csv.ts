@@ -0,0 +1,14 @@
+import { writeFileSync } from 'fs'
+import { exportCsv } from './csv.js'
+
+// Export the database to CSV in the spreadsheet column layout
+// Usage: pnpm export-csv [output file] (prints to stdout if no file is given)
+const outFile = process.argv[2]
+const csv = exportCsv()
+
+if (outFile) {
+  writeFileSync(outFile, csv)
+  console.log(`📄 Exported ${csv.trim().split('\n').length - 1} row(s) to ${outFile}`)
+} else {
+  process.stdout.write(csv)
+}
@@ -1,13 +1,15 @@
-import { logAccountConfig, initializeUtxoStateFromMempool } from './account.js'
-import { rift } from './providers/rift.js'
-import { thorchain, recoverPendingSwapsFromCSV as recoverThorchainSwaps } from './providers/thorchain.js'
-import { chainflip } from './providers/chainflip.js'
-import { relay } from './providers/relay.js'
-import { type SwapParams, colorToken, colorPair } from './providers/types.js'
-import { logQuote, logSwap } from './csv.js'
+import { randomUUID } from 'crypto'
+import { logAccountConfig, initializeUtxoStateFromMempool, getNetworkCosts } from './account.js'
+import { getActiveProviders } from './providers/registry.js'
+import { type Provider, type SwapParams, colorToken, formatTokenAmount } from './providers/types.js'
+import { logQuote, logSwap, logFailure, importLegacyCsv } from './csv.js'
+import { type FailureStage, type ErrorType, categorizeError, errorMessage } from './errors.js'
 import { startServer } from './server.js'
 import { trackSwap, startSettlementWatcher } from './settlement-tracker.js'
+import { recordStage } from './lifecycle.js'
 import { getTokenPrices } from './prices.js'
+import { rankCycle } from './rankings.js'
+import { activeExperiment, startExperiment } from './experiments.js'
 import {
   TWO_HOURS_MS,
   SEVEN_DAYS_MS,
@@ -17,37 +19,85 @@ import {
   btcToEvmSwaps,
 } from './constants.js'
 
-// ============================================================================
-// ACTIVE PROVIDERS
-// ============================================================================
-const PROVIDERS = {
-  rift: false,
-  relay: true,
-  thorchain: true,
-  chainflip: true,
-}
-
-// parse CLI args (--execute)
+// parse CLI args (--execute, --experiment "<name>")
 const args = process.argv.slice(2)
 const EXECUTE_SWAPS = args.includes('--execute') ? true : args.includes('--no-execute') ? false : DEFAULT_EXECUTE_SWAPS
+const EXPERIMENT = args.includes('--experiment') ? args[args.indexOf('--experiment') + 1] : undefined
 
 // Note: Delays between swaps removed - Relay provider now handles UTXO conflicts
 // with automatic retry and fresh quote fetching
 
+// Unsupported provider/pair/amount combinations already recorded this run - they're structural and would
+// otherwise add a failure row every cycle
+const recordedUnsupported = new Set<string>()
+
+// Persist a failed quote/execution so provider reliability can be measured
+function recordFailure(
+  provider: Provider,
+  swap: SwapParams,
+  stage: FailureStage,
+  errorType: ErrorType,
+  message: string,
+  ids: { cycleId: string; quoteId?: string }
+) {
+  if (errorType === 'unsupported_pair') {
+    const key = `${provider.name}|${stage}|${swap.inputToken}|${swap.outputToken}|${swap.inputAmount}`
+    if (recordedUnsupported.has(key)) return
+    recordedUnsupported.add(key)
+  }
+  logFailure({
+    provider: provider.name,
+    stage,
+    inputToken: swap.inputToken,
+    outputToken: swap.outputToken,
+    inputAmount: swap.inputAmount,
+    errorType,
+    errorMessage: message,
+    ...ids,
+  })
+}
+
 // Execute a single swap for a provider
 async function executeProviderSwap(
-  provider: { name: string; getQuote: (swap: SwapParams) => Promise<{ quote: { outputAmount: string }; execute: () => Promise<{ swapId?: string }> }> },
+  provider: Provider,
   swap: SwapParams,
-  prices: Awaited<ReturnType<typeof getTokenPrices>>
+  prices: Awaited<ReturnType<typeof getTokenPrices>>,
+  cycleId: string
 ) {
-  const { quote, execute } = await provider.getQuote(swap)
-  console.log(`\n[${provider.name}] Quote: ${swap.inputAmount} ${colorToken(swap.inputToken)} -> ${quote.outputAmount} ${colorToken(swap.outputToken)}`)
-  logQuote(quote as Parameters<typeof logQuote>[0], prices)
+  let quoteResult
+  try {
+    quoteResult = await provider.getQuote(swap)
+  } catch (err) {
+    recordFailure(provider, swap, 'quote', categorizeError(err), errorMessage(err), { cycleId })
+    throw err
+  }
+  const { quote, execute } = quoteResult
+  const quotedAt = Date.now()
+  quote.quoteId = randomUUID()
+  quote.cycleId = cycleId
+  console.log(`\n[${provider.name}] Quote: ${swap.inputAmount} ${colorToken(swap.inputToken)} -> ${formatTokenAmount(quote.outputAmount)} ${colorToken(swap.outputToken)}`)
+  logQuote(quote, prices)
   
   if (EXECUTE_SWAPS) {
-    const result = await execute()
-    logSwap(result as Parameters<typeof logSwap>[0], prices)
-    if (result.swapId) trackSwap(result as Parameters<typeof trackSwap>[0])
+    let result
+    try {
+      result = await execute()
+    } catch (err) {
+      recordFailure(provider, swap, 'execute', categorizeError(err), errorMessage(err), { cycleId, quoteId: quote.quoteId })
+      throw err
+    }
+    result.quoteId = quote.quoteId
+    result.cycleId = cycleId
+    // Our own miner fees / gas for the deposit and any approvals
+    if (result.networkTxs?.length) {
+      result.networkCosts = await getNetworkCosts(result.networkTxs)
+    }
+    logSwap(result, prices)
+    if (result.swapId) {
+      recordStage(result.swapId, provider.name, 'quoted', '', quotedAt)
+      recordStage(result.swapId, provider.name, 'deposit_broadcast', result.txHash || '', result.timestamp)
+      trackSwap(result)
+    }
     return true // executed
   }
   return false // quote only
@@ -57,98 +107,47 @@ async function executeProviderSwap(
 async function executeSwaps(swaps: SwapParams[]) {
   const isBtcToEvm = swaps[0]?.inputToken === 'BTC'
   const direction = isBtcToEvm ? `${colorToken('BTC')} -> ${colorToken('EVM')}` : `${colorToken('EVM')} -> ${colorToken('BTC')}`
-  console.log(`\n${'='.repeat(50)}\n${direction} | ${new Date().toISOString()}\n${'='.repeat(50)}`)
+  // Every quote, swap and settlement from this run is tagged with the cycle
+  const cycleId = randomUUID()
+  console.log(`\n${'='.repeat(50)}\n${direction} | ${new Date().toISOString()} | cycle ${cycleId.slice(0, 8)}\n${'='.repeat(50)}`)
 
   // fetch current token prices
   const prices = await getTokenPrices()
 
   // For BTC→EVM swaps: must be sequential quote+execute to avoid UTXO conflicts
   // Relay constructs PSBTs at quote time, so we need fresh quotes after each execution
+  // (EVM→BTC has no UTXO conflict on the EVM side, but runs through the same loop)
   if (isBtcToEvm && EXECUTE_SWAPS) {
     console.log(`\n📋 BTC→EVM: Using sequential quote+execute (UTXO safety)`)
-    
-    for (const swap of swaps) {
-      // ---------------------------------- RIFT (sequential) --------------------------------------
-      if (PROVIDERS.rift) {
-        try {
-          await executeProviderSwap(rift as Parameters<typeof executeProviderSwap>[0], swap, prices)
-        } catch (err) {
-          console.error(`  ❌ Rift Error: ${err instanceof Error ? err.message : err}`)
-        }
-      }
-
-      // ---------------------------------- RELAY (sequential) --------------------------------------
-      if (PROVIDERS.relay) {
-        try {
-          await executeProviderSwap(relay as Parameters<typeof executeProviderSwap>[0], swap, prices)
-        } catch (err) {
-          console.error(`  ❌ Relay Error: ${err instanceof Error ? err.message : err}`)
-        }
-      }
-
-      // ---------------------------------- THORCHAIN (sequential) --------------------------------------
-      if (PROVIDERS.thorchain && thorchain.supportsSwap(swap.inputToken, swap.outputToken)) {
-        try {
-          await executeProviderSwap(thorchain as Parameters<typeof executeProviderSwap>[0], swap, prices)
-        } catch (err) {
-          console.error(`  ❌ Thorchain Error: ${err instanceof Error ? err.message : err}`)
-        }
-      }
-
-      // ---------------------------------- CHAINFLIP (sequential) --------------------------------------
-      if (PROVIDERS.chainflip && chainflip.supportsSwap(swap.inputToken, swap.outputToken)) {
-        try {
-          await executeProviderSwap(chainflip as Parameters<typeof executeProviderSwap>[0], swap, prices)
-        } catch (err) {
-          console.error(`  ❌ Chainflip Error: ${err instanceof Error ? err.message : err}`)
-        }
-      }
-    }
-    return
   }
 
-  // For EVM→BTC swaps (or quote-only mode): can batch quotes since no UTXO conflict on EVM side
   for (const swap of swaps) {
-    // ---------------------------------- RIFT --------------------------------------
-    if (PROVIDERS.rift) {
-      try {
-        await executeProviderSwap(rift as Parameters<typeof executeProviderSwap>[0], swap, prices)
-      } catch (err) {
-        console.error(`  ❌ Rift Error: ${err instanceof Error ? err.message : err}`)
-      }
-    }
-
-    // ---------------------------------- RELAY --------------------------------------
-    if (PROVIDERS.relay) {
-      try {
-        await executeProviderSwap(relay as Parameters<typeof executeProviderSwap>[0], swap, prices)
-      } catch (err) {
-        console.error(`  ❌ Relay Error: ${err instanceof Error ? err.message : err}`)
+    for (const { provider } of getActiveProviders()) {
+      if (!provider.supportsSwap(swap.inputToken, swap.outputToken)) {
+        recordFailure(provider, swap, 'quote', 'unsupported_pair', `${swap.inputToken}->${swap.outputToken} not supported`, { cycleId })
+        continue
       }
-    }
 
-    // ---------------------------------- THORCHAIN --------------------------------------
-    if (PROVIDERS.thorchain && thorchain.supportsSwap(swap.inputToken, swap.outputToken)) {
       try {
-        await executeProviderSwap(thorchain as Parameters<typeof executeProviderSwap>[0], swap, prices)
+        await executeProviderSwap(provider, swap, prices, cycleId)
       } catch (err) {
-        console.error(`  ❌ Thorchain Error: ${err instanceof Error ? err.message : err}`)
+        console.error(`  ❌ ${provider.name} Error: ${err instanceof Error ? err.message : err}`)
       }
     }
+  }
 
-    // ---------------------------------- CHAINFLIP --------------------------------------
-    if (PROVIDERS.chainflip && chainflip.supportsSwap(swap.inputToken, swap.outputToken)) {
-      try {
-        await executeProviderSwap(chainflip as Parameters<typeof executeProviderSwap>[0], swap, prices)
-      } catch (err) {
-        console.error(`  ❌ Chainflip Error: ${err instanceof Error ? err.message : err}`)
-      }
-    }
+  // Rank providers by quoted output for each pair quoted this cycle
+  for (const ranking of rankCycle(cycleId)) {
+    if (ranking.quoted.length < 2) continue
+    const ranked = ranking.quoted
+      .map(r => `${r.rank}. ${r.provider}${r.regretBips > 0 ? ` (-${r.regretBips.toFixed(1)} bps)` : ''}`)
+      .join('  ')
+    console.log(`\n🏆 ${ranking.pair} (${ranking.inputAmount}): ${ranked}`)
   }
 }
 
 async function main() {
-  const activeProviders = Object.entries(PROVIDERS).filter(([, v]) => v).map(([k]) => k)
+  const activeProviders = getActiveProviders().map(p => p.provider.name)
   
   const green = '\x1b[38;5;120m'
   const yellow = '\x1b[33m'
@@ -161,6 +160,14 @@ async function main() {
   console.log(`${green}🔌 Providers: ${white}${activeProviders.join(', ') || 'none'}${reset}`)
   console.log('')
   logAccountConfig()
+
+  // One-time import of the pre-SQLite CSV logs (no-op once imported)
+  importLegacyCsv()
+
+  // Log this run under its own experiment (the previous one is archived, not deleted)
+  if (EXPERIMENT) startExperiment(EXPERIMENT)
+  console.log(`${green}🧪 Experiment: ${white}${activeExperiment()}${reset}`)
+
   startServer()
   
   // Start background settlement watcher
@@ -175,11 +182,6 @@ async function main() {
       console.log(`   ⚠️ Found ${pendingTxCount} pending tx(s) - will use recovered state to avoid conflicts`)
       console.log('')
     }
-    
-    // Recover pending THORChain swaps from CSV for settlement tracking
-    if (PROVIDERS.thorchain) {
-      recoverThorchainSwaps()
-    }
   }
 
   const startTime = Date.now()
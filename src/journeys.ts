@@ -0,0 +1,269 @@
+import { getDataRows } from './csv.js'
+import { type Direction, type StatsWindow, deliveredVsQuotedBips, direction, inWindow, sizeTier } from './analytics.js'
+import { type StageTransition, getTransitions } from './lifecycle.js'
+import { parseDirection } from './series.js'
+
+// Swap journeys (quote -> swap -> settlement) assembled server-side, for /api/journeys.
+// Same linking and status rules as the dashboard, so scripts don't need to reimplement them.
+
+export type JourneyStatus = 'settled' | 'pending' | 'stuck' | 'failed' | 'timeout' | 'refunded'
+
+// A row in the CSV layout (see csv.ts getDataRows)
+type DataRow = Record<string, string>
+
+export interface Journey {
+  swapId: string
+  provider: string
+  pair: string  // e.g. 'BTC→USDC'
+  direction: Direction
+  inputToken: string
+  outputToken: string
+  inputAmount: string   // human-readable
+  outputAmount: string  // quoted, base units
+  inputUsd: number | null
+  tier: string
+  status: JourneyStatus
+  stage: string | null  // latest lifecycle stage
+  quoteId: string | null
+  cycleId: string | null
+  startTime: string     // quote time (swap time if no quote matched)
+  swapTime: string
+  settlementTime: string | null
+  feeBips: number | null
+  totalFeeBips: number | null
+  deliveredVsQuotedBips: number | null
+  chainflipSwapId: string | null
+  experiment: string | null
+}
+
+export interface ExplorerLink {
+  label: string
+  url: string
+}
+
+export interface JourneyDetail extends Journey {
+  quote: DataRow | null
+  swap: DataRow
+  settlement: DataRow | null
+  statusHistory: StageTransition[]
+  explorerLinks: ExplorerLink[]
+}
+
+export interface JourneyQuery extends StatsWindow {
+  provider?: string
+  pair?: string
+  direction?: Direction
+  status?: JourneyStatus
+  tier?: string
+  sort: JourneySort
+  order: 'asc' | 'desc'
+  limit: number
+  cursor?: string
+}
+
+export type JourneySort = 'startTime' | 'feeBips' | 'inputUsd' | 'settlementTime'
+const SORTS: JourneySort[] = ['startTime', 'feeBips', 'inputUsd', 'settlementTime']
+const STATUSES: JourneyStatus[] = ['settled', 'pending', 'stuck', 'failed', 'timeout', 'refunded']
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 500
+const STUCK_AFTER_MS = 24 * 60 * 60 * 1000
+// Rows logged before quote IDs existed are matched to a quote from the same provider this long before the swap
+const QUOTE_MATCH_MS = 120_000
+
+// Numeric Chainflip IDs of pending swaps are only known in memory (see server.ts)
+export type ChainflipIdLookup = (swapId: string) => string | null
+
+interface Rows {
+  quote: DataRow | null
+  swap: DataRow
+  settlement: DataRow | null
+}
+
+const num = (value: string | undefined) => value ? parseFloat(value) : null
+
+function journeyStatus(swap: DataRow, settlement: DataRow | null): JourneyStatus {
+  if (settlement) {
+    if (settlement.status === 'timeout' || settlement.status === 'failed' || settlement.status === 'refunded') return settlement.status
+    return 'settled'
+  }
+  return Date.now() - Date.parse(swap.timestamp) > STUCK_AFTER_MS ? 'stuck' : 'pending'
+}
+
+function toJourney({ quote, swap, settlement }: Rows, chainflipId?: ChainflipIdLookup): Journey {
+  const stages = getTransitions(swap.swapId)
+  return {
+    swapId: swap.swapId,
+    provider: swap.provider,
+    pair: `${swap.inputToken}→${swap.outputToken}`,
+    direction: direction(swap.inputToken),
+    inputToken: swap.inputToken,
+    outputToken: swap.outputToken,
+    inputAmount: swap.inputAmount,
+    outputAmount: swap.outputAmount,
+    inputUsd: num(swap.inputUsd),
+    tier: sizeTier(num(swap.inputUsd)),
+    status: journeyStatus(swap, settlement),
+    stage: stages[stages.length - 1]?.stage ?? null,
+    quoteId: swap.quoteId || null,
+    cycleId: swap.cycleId || null,
+    startTime: quote?.timestamp || swap.timestamp,
+    swapTime: swap.timestamp,
+    settlementTime: settlement?.timestamp || null,
+    feeBips: num(settlement?.feeBips),
+    totalFeeBips: num(settlement?.totalFeeBips),
+    deliveredVsQuotedBips: settlement ? deliveredVsQuotedBips(settlement) : null,
+    chainflipSwapId: settlement?.chainflipSwapId
+      || (swap.provider.startsWith('Chainflip') && chainflipId ? chainflipId(swap.swapId) : null),
+    experiment: swap.experiment || null,
+  }
+}
+
+// Link every swap with its quote (by quoteId, else the time heuristic) and settlement
+function linkRows(): Rows[] {
+  const rows = getDataRows()
+  const quotes = rows.filter(row => row.type === 'quote')
+  const quotesById = new Map(quotes.filter(q => q.quoteId).map(q => [q.quoteId, q]))
+  const settlements = new Map(rows.filter(row => row.type === 'settlement').map(s => [s.swapId, s]))
+
+  return rows
+    .filter(row => row.type === 'swap' && row.swapId)
+    .map(swap => {
+      const swapTime = Date.parse(swap.timestamp)
+      const quote = swap.quoteId
+        ? quotesById.get(swap.quoteId)
+        : quotes.find(q => {
+          const diff = swapTime - Date.parse(q.timestamp)
+          return q.provider === swap.provider && q.inputToken === swap.inputToken && q.outputToken === swap.outputToken
+            && diff >= 0 && diff < QUOTE_MATCH_MS
+        })
+      return { quote: quote || null, swap, settlement: settlements.get(swap.swapId) || null }
+    })
+}
+
+// Block explorer links for the deposit, provider-side swap and payout
+function explorerLinks(journey: Journey, { swap, settlement }: Rows): ExplorerLink[] {
+  const txUrl = (token: string, hash: string) => token === 'BTC'
+    ? `https://mempool.space/tx/${hash.replace(/^0x/i, '')}`
+    : `https://etherscan.io/tx/0x${hash.replace(/^0x/i, '').toLowerCase()}`
+  const links: ExplorerLink[] = []
+
+  // Rift swap IDs are encoded order IDs, not tx hashes
+  const depositTx = swap.txHash || (journey.provider !== 'Rift' ? swap.swapId : '')
+  if (depositTx) links.push({ label: 'Deposit tx', url: txUrl(journey.inputToken, depositTx) })
+
+  if (journey.provider === 'Relay' && swap.relayRequestId) {
+    links.push({ label: 'Relay', url: `https://relay.link/transaction/${swap.relayRequestId}` })
+  }
+  if (journey.provider === 'Thorchain' || journey.provider === 'Maya') {
+    const thorTxId = swap.swapId.replace(/^0x/i, '').toUpperCase()
+    if (journey.provider === 'Maya') {
+      links.push({ label: 'Maya Explorer', url: `https://www.explorer.mayachain.info/tx/${thorTxId}` })
+    } else {
+      links.push({ label: 'ViewBlock', url: `https://viewblock.io/thorchain/tx/${thorTxId}` })
+      links.push({ label: '9R Tracker', url: `https://track.ninerealms.com/${thorTxId}` })
+    }
+  }
+  if (journey.chainflipSwapId) {
+    links.push({ label: 'Chainflip', url: `https://scan.chainflip.io/swaps/${journey.chainflipSwapId}` })
+  }
+  if (settlement?.payoutTxHash) {
+    links.push({ label: 'Payout tx', url: txUrl(journey.outputToken, settlement.payoutTxHash) })
+  }
+  return links
+}
+
+/**
+ * Parse /api/journeys query parameters. Throws on invalid values.
+ */
+export function parseJourneyQuery(params: URLSearchParams, window: StatsWindow): JourneyQuery {
+  const sort = (params.get('sort') || 'startTime') as JourneySort
+  if (!SORTS.includes(sort)) throw new Error(`Invalid sort "${sort}" - use one of: ${SORTS.join(', ')}`)
+  const order = params.get('order') || 'desc'
+  if (order !== 'asc' && order !== 'desc') throw new Error(`Invalid order "${order}" - use asc or desc`)
+  const status = params.get('status') as JourneyStatus | null
+  if (status && !STATUSES.includes(status)) throw new Error(`Invalid status "${status}" - use one of: ${STATUSES.join(', ')}`)
+  const limit = Number(params.get('limit') || DEFAULT_LIMIT)
+  if (!Number.isInteger(limit) || limit < 1) throw new Error(`Invalid limit "${params.get('limit')}"`)
+
+  return {
+    ...window,
+    provider: params.get('provider') || undefined,
+    // Accept BTC-USDC as well as BTC→USDC
+    pair: params.get('pair')?.toUpperCase().replace('-', '→') || undefined,
+    direction: parseDirection(params) ?? undefined,
+    status: status || undefined,
+    tier: params.get('tier') || undefined,
+    sort,
+    order,
+    limit: Math.min(limit, MAX_LIMIT),
+    cursor: params.get('cursor') || undefined,
+  }
+}
+
+// Cursors are opaque to clients: the sort value and swapId of the last journey returned
+function encodeCursor(value: string | number | null, swapId: string): string {
+  return Buffer.from(JSON.stringify([value, swapId])).toString('base64url')
+}
+
+function decodeCursor(cursor: string): [string | number | null, string] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    if (Array.isArray(decoded) && decoded.length === 2 && typeof decoded[1] === 'string') return decoded as [string | number | null, string]
+  } catch {}
+  throw new Error('Invalid cursor')
+}
+
+/**
+ * Journeys matching the query, sorted and paginated. Pass nextCursor back as `cursor` for the next page.
+ */
+export function listJourneys(query: JourneyQuery, chainflipId?: ChainflipIdLookup): { journeys: Journey[]; nextCursor: string | null } {
+  const journeys = linkRows()
+    .map(rows => toJourney(rows, chainflipId))
+    .filter(j => inWindow({ timestamp: j.startTime, experiment: j.experiment }, query)
+      && (!query.provider || j.provider.toLowerCase() === query.provider.toLowerCase())
+      && (!query.pair || j.pair === query.pair)
+      && (!query.direction || j.direction === query.direction)
+      && (!query.status || j.status === query.status)
+      && (!query.tier || j.tier === query.tier))
+
+  // Missing values sort last in either order; swapId breaks ties so pages never overlap
+  const sortValue = (j: Journey) => j[query.sort]
+  const compare = (a: [string | number | null, string], b: [string | number | null, string]) => {
+    const [va, ida] = a
+    const [vb, idb] = b
+    if (va !== vb) {
+      if (va === null) return 1
+      if (vb === null) return -1
+      return (va < vb ? -1 : 1) * (query.order === 'asc' ? 1 : -1)
+    }
+    return ida < idb ? -1 : ida > idb ? 1 : 0
+  }
+  journeys.sort((a, b) => compare([sortValue(a), a.swapId], [sortValue(b), b.swapId]))
+
+  const after = query.cursor ? decodeCursor(query.cursor) : null
+  const start = after ? journeys.findIndex(j => compare([sortValue(j), j.swapId], after) > 0) : 0
+  const page = start === -1 ? [] : journeys.slice(start, start + query.limit)
+  const last = page[page.length - 1]
+  const hasMore = start !== -1 && start + query.limit < journeys.length
+
+  return {
+    journeys: page,
+    nextCursor: hasMore && last ? encodeCursor(sortValue(last), last.swapId) : null,
+  }
+}
+
+/**
+ * Full record for one swap: linked rows, status history and explorer links (null if unknown)
+ */
+export function getJourney(swapId: string, chainflipId?: ChainflipIdLookup): JourneyDetail | null {
+  const rows = linkRows().find(r => r.swap.swapId === swapId)
+  if (!rows) return null
+  const journey = toJourney(rows, chainflipId)
+  return {
+    ...journey,
+    ...rows,
+    statusHistory: getTransitions(swapId),
+    explorerLinks: explorerLinks(journey, rows),
+  }
+}
@@ -0,0 +1,134 @@
+import { insertRow, selectRows } from './db.js'
+import { publish } from './events.js'
+
+// Swap lifecycle model shared by all providers.
+// Each adapter maps its native statuses onto these stages; every transition is timestamped
+// and stored in the status_events table so we can measure where time is spent per provider.
+
+export type LifecycleStage =
+  | 'quoted'
+  | 'deposit_broadcast'
+  | 'deposit_confirmed'
+  | 'processing'
+  | 'payout_broadcast'
+  | 'payout_confirmed'
+  | 'refunded'
+  | 'failed'
+  | 'timeout'
+
+// Happy-path stages in order - a swap only moves forward through these
+export const PROGRESS_STAGES: LifecycleStage[] = [
+  'quoted',
+  'deposit_broadcast',
+  'deposit_confirmed',
+  'processing',
+  'payout_broadcast',
+  'payout_confirmed',
+]
+
+// Terminal stages - nothing is recorded after one of these
+export const TERMINAL_STAGES: LifecycleStage[] = ['payout_confirmed', 'refunded', 'failed', 'timeout']
+
+export interface StageTransition {
+  swapId: string
+  provider: string
+  stage: LifecycleStage
+  at: number      // ms timestamp
+  detail: string  // provider-native status (for debugging the mapping)
+}
+
+// Transitions per swapId, loaded from the database on first use
+let transitions: Map<string, StageTransition[]> | null = null
+
+function load(): Map<string, StageTransition[]> {
+  if (transitions) return transitions
+  transitions = new Map()
+
+  for (const row of selectRows('status_events')) {
+    const swapId = String(row.swapId)
+    const list = transitions.get(swapId) || []
+    list.push({
+      swapId,
+      provider: String(row.provider),
+      stage: row.stage as LifecycleStage,
+      at: new Date(String(row.timestamp)).getTime(),
+      detail: row.detail ? String(row.detail) : '',
+    })
+    transitions.set(swapId, list)
+  }
+  return transitions
+}
+
+/**
+ * Record a stage transition for a swap. Ignored if the swap is already in (or past) that stage,
+ * or has already reached a terminal stage. Returns true if a transition was recorded.
+ */
+export function recordStage(
+  swapId: string,
+  provider: string,
+  stage: LifecycleStage,
+  detail = '',
+  at = Date.now()
+): boolean {
+  const all = load()
+  const list = all.get(swapId) || []
+  const current = list[list.length - 1]?.stage
+
+  if (current) {
+    if (current === stage || TERMINAL_STAGES.includes(current)) return false
+    // Providers can report stale statuses between polls - never move backwards
+    const currentRank = PROGRESS_STAGES.indexOf(current)
+    const nextRank = PROGRESS_STAGES.indexOf(stage)
+    if (nextRank !== -1 && nextRank < currentRank) return false
+  }
+
+  const transition: StageTransition = { swapId, provider, stage, at, detail }
+  list.push(transition)
+  all.set(swapId, list)
+
+  insertRow('status_events', {
+    timestamp: new Date(at).toISOString(),
+    provider,
+    swapId,
+    stage,
+    detail,
+  })
+  publish({ type: 'status', ...transition })
+  return true
+}
+
+/**
+ * Current stage of a swap (null if never recorded)
+ */
+export function getStage(swapId: string): LifecycleStage | null {
+  const list = load().get(swapId)
+  return list?.[list.length - 1]?.stage || null
+}
+
+/**
+ * All recorded transitions for a swap, oldest first
+ */
+export function getTransitions(swapId: string): StageTransition[] {
+  return load().get(swapId) || []
+}
+
+/**
+ * All recorded transitions, keyed by swapId
+ */
+export function getAllTransitions(): Map<string, StageTransition[]> {
+  return load()
+}
+
+/**
+ * Time spent in each stage (ms), measured until the next transition.
+ * The current stage of an unfinished swap is measured until now.
+ */
+export function stageDurations(list: StageTransition[]): Partial<Record<LifecycleStage, number>> {
+  const durations: Partial<Record<LifecycleStage, number>> = {}
+  list.forEach((t, i) => {
+    if (TERMINAL_STAGES.includes(t.stage)) return
+    const end = list[i + 1]?.at ?? Date.now()
+    durations[t.stage] = (durations[t.stage] || 0) + (end - t.at)
+  })
+  return durations
+}
@@ -0,0 +1,184 @@
+import { selectRows, type Row } from './db.js'
+import { type BalanceResult, getBalances } from './account.js'
+import { settlementDelayMs } from './analytics.js'
+import { storedAmount } from './csv.js'
+import { getPriceFreshness } from './prices.js'
+import { getProviders } from './providers/registry.js'
+import { tokenAmountToNumber } from './providers/types.js'
+import { getPendingByProvider } from './settlement-tracker.js'
+
+// Prometheus text exposition for /metrics. Counters and histograms are computed from the stored rows on every
+// scrape; rows are never deleted (experiments archive them), so they only ever increase.
+
+type Labels = Record<string, string>
+
+// Histogram buckets (upper bounds)
+const LATENCY_BUCKETS_SEC = [60, 300, 900, 1800, 3600, 7200, 14400, 43200, 86400]
+const FEE_BUCKETS_BIPS = [-100, -25, 0, 10, 25, 50, 100, 200, 500, 1000, 2500]
+
+// Balances are fetched over RPC - reuse them for this long between scrapes
+const BALANCE_CACHE_MS = 30_000
+let balanceCache: { balances: BalanceResult; at: number } | null = null
+
+// ASCII pair label, e.g. BTC-USDC
+const pairOf = (row: Row) => `${row.inputToken}-${row.outputToken}`
+const seconds = (ms: number) => ms / 1000
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  return entries.length ? `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}` : ''
+}
+
+// Values collected per label set
+class Samples {
+  private groups = new Map<string, { labels: Labels; values: number[] }>()
+
+  add(labels: Labels, value = 1) {
+    const id = formatLabels(labels)
+    const group = this.groups.get(id) || { labels, values: [] }
+    group.values.push(value)
+    this.groups.set(id, group)
+  }
+
+  entries() {
+    return [...this.groups.values()]
+  }
+}
+
+class Exposition {
+  private lines: string[] = []
+
+  private header(name: string, type: string, help: string) {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`)
+  }
+
+  // One sample per label set
+  gauge(name: string, help: string, samples: Array<[Labels, number]>, type = 'gauge') {
+    this.header(name, type, help)
+    for (const [labels, value] of samples) this.lines.push(`${name}${formatLabels(labels)} ${value}`)
+  }
+
+  // Number of values added per label set
+  counter(name: string, help: string, samples: Samples) {
+    this.gauge(name, help, samples.entries().map(({ labels, values }) => [labels, values.length]), 'counter')
+  }
+
+  histogram(name: string, help: string, buckets: number[], samples: Samples) {
+    this.header(name, 'histogram', help)
+    for (const { labels, values } of samples.entries()) {
+      for (const le of buckets) {
+        this.lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${values.filter(v => v <= le).length}`)
+      }
+      this.lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${values.length}`)
+      this.lines.push(`${name}_sum${formatLabels(labels)} ${values.reduce((sum, v) => sum + v, 0)}`)
+      this.lines.push(`${name}_count${formatLabels(labels)} ${values.length}`)
+    }
+  }
+
+  toString() {
+    return this.lines.join('\n') + '\n'
+  }
+}
+
+async function cachedBalances(): Promise<BalanceResult | null> {
+  if (balanceCache && Date.now() - balanceCache.at < BALANCE_CACHE_MS) return balanceCache.balances
+  const balances = await getBalances().catch(() => null)
+  if (balances) balanceCache = { balances, at: Date.now() }
+  return balances
+}
+
+/**
+ * All metrics in the Prometheus text format
+ */
+export async function renderMetrics(): Promise<string> {
+  const out = new Exposition()
+  const quotes = selectRows('quotes')
+  const swaps = selectRows('swaps')
+  const settlements = selectRows('settlements')
+  const failures = selectRows('failures')
+
+  // Quotes and swaps by outcome
+  const quoteOutcomes = new Samples()
+  for (const quote of quotes) quoteOutcomes.add({ provider: String(quote.provider), pair: pairOf(quote), outcome: 'ok' })
+  const swapOutcomes = new Samples()
+  for (const swap of swaps) swapOutcomes.add({ provider: String(swap.provider), pair: pairOf(swap), outcome: 'submitted' })
+  const errors = new Samples()
+  for (const failure of failures) {
+    const labels = { provider: String(failure.provider), pair: pairOf(failure) }
+    if (failure.failureStage === 'quote') {
+      quoteOutcomes.add({ ...labels, outcome: failure.errorType === 'unsupported_pair' ? 'unsupported' : 'failed' })
+    } else {
+      swapOutcomes.add({ ...labels, outcome: 'execute_failed' })
+    }
+    errors.add({ provider: String(failure.provider), stage: String(failure.failureStage), error_type: String(failure.errorType) })
+  }
+  out.counter('feecomp_quotes_total', 'Quotes requested, by outcome (ok, failed, unsupported)', quoteOutcomes)
+  out.counter('feecomp_swaps_total', 'Swaps executed, by outcome (submitted, execute_failed)', swapOutcomes)
+  out.counter('feecomp_provider_errors_total', 'Failed provider quote/execute calls by error type', errors)
+
+  // Settlements, latency and fees
+  const swapsById = new Map(swaps.filter(s => s.swapId).map(s => [String(s.swapId), s]))
+  const settlementStatuses = new Samples()
+  const latency = new Samples()
+  const fees = new Samples()
+  for (const settlement of settlements) {
+    const labels = { provider: String(settlement.provider), pair: pairOf(settlement) }
+    settlementStatuses.add({ ...labels, status: String(settlement.status) })
+    if (settlement.status !== 'completed') continue
+    const swap = settlement.swapId ? swapsById.get(String(settlement.swapId)) : undefined
+    const delay = swap ? settlementDelayMs(swap, settlement) : null
+    if (delay !== null) latency.add(labels, seconds(delay))
+    if (typeof settlement.feeBips === 'number') fees.add(labels, settlement.feeBips)
+  }
+  out.counter('feecomp_settlements_total', 'Settlements by status (completed, failed, refunded, timeout)', settlementStatuses)
+
+  const pending = getPendingByProvider()
+  out.gauge('feecomp_pending_settlements', 'Swaps waiting for settlement in the tracker',
+    getProviders().map(({ provider }) => [{ provider: provider.name }, pending[provider.name] || 0]))
+
+  out.histogram('feecomp_settlement_latency_seconds', 'Swap submitted to settlement logged (completed swaps)', LATENCY_BUCKETS_SEC, latency)
+  out.histogram('feecomp_fee_bips', 'Fee of completed swaps in bips of the input value', FEE_BUCKETS_BIPS, fees)
+
+  // Latest quote per provider, pair and input amount
+  const lastQuotes = new Map<string, Row>()
+  for (const quote of quotes) {
+    if (quote.outputAmount) lastQuotes.set(`${quote.provider}|${pairOf(quote)}|${quote.inputAmount}`, quote)
+  }
+  const lastQuoteLabels = (quote: Row) => ({ provider: String(quote.provider), pair: pairOf(quote), input_amount: String(quote.inputAmount) })
+  out.gauge('feecomp_last_quote_output', 'Output of the latest quote in whole output tokens',
+    [...lastQuotes.values()].map(quote => [lastQuoteLabels(quote), tokenAmountToNumber(storedAmount(quote.outputAmount!, String(quote.outputToken)))]))
+  out.gauge('feecomp_last_quote_timestamp_seconds', 'Time of the latest quote',
+    [...lastQuotes.values()].map(quote => [lastQuoteLabels(quote), seconds(Date.parse(String(quote.timestamp)))]))
+
+  // Wallet balances (left out if the RPCs fail)
+  const balances = await cachedBalances()
+  if (balances) {
+    const tokens = ['btc', 'eth', 'usdc', 'cbbtc'] as const
+    out.gauge('feecomp_wallet_balance', 'Wallet balance in whole tokens', tokens.map(token => [{ token: token.toUpperCase() }, parseFloat(balances[token]) || 0]))
+    out.gauge('feecomp_wallet_balance_usd', 'Wallet balance in USD',
+      tokens.map(token => [{ token: token.toUpperCase() }, parseFloat(balances[`${token}Usd`]) || 0]))
+  }
+
+  // Price oracle freshness
+  const freshness = getPriceFreshness()
+  if (freshness.fetchedAt !== null) {
+    out.gauge('feecomp_price_fetch_timestamp_seconds', 'Last price oracle fetch', [[{}, seconds(freshness.fetchedAt)]])
+  }
+  out.gauge('feecomp_price_source_last_success_timestamp_seconds', 'Last time each price source returned a price',
+    Object.entries(freshness.sources).filter(([, at]) => at !== null).map(([source, at]) => [{ source }, seconds(at!)]))
+  out.gauge('feecomp_price_live_timestamp_seconds', 'Last time each token was priced from a live source (not reused or fallback)',
+    Object.entries(freshness.tokens).filter(([, at]) => at !== null).map(([token, at]) => [{ token: token.toUpperCase() }, seconds(at!)]))
+  const { quality } = freshness
+  if (quality) {
+    out.gauge('feecomp_price_degraded', 'Whether the latest price of a token was stale, a hardcoded fallback or from diverging sources',
+      (['stale', 'fallback', 'divergent'] as const).flatMap(reason =>
+        Object.keys(quality.sources).map((token): [Labels, number] =>
+          [{ token: token.toUpperCase(), reason }, (quality[reason] as string[]).includes(token) ? 1 : 0])))
+  }
+
+  return out.toString()
+}
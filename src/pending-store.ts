@@ -0,0 +1,105 @@
+import { existsSync, readFileSync, writeFileSync, renameSync } from 'fs'
+import { join } from 'path'
+
+// Durable store for in-flight swap tracking state (survives restarts)
+// One JSON file, one section per namespace (settlement tracker + each provider's pendingSwaps)
+const STORE_FILE = join(process.cwd(), 'pending-swaps.json')
+
+// Maps registered by namespace
+const maps = new Map<string, PersistentMap<unknown>>()
+
+// Sections in the file whose namespace isn't registered this run (e.g. disabled provider) - kept as-is
+let orphanedSections: Record<string, unknown> = {}
+
+let restored = false
+
+// JSON can't carry bigint (TokenAmount.units) - tag it on write, revive on read
+function replacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? { $bigint: value.toString() } : value
+}
+
+function reviver(_key: string, value: any): unknown {
+  return value && typeof value === 'object' && typeof value.$bigint === 'string' ? BigInt(value.$bigint) : value
+}
+
+/**
+ * A Map whose entries are written through to the pending-swap store.
+ * Providers mutate entries in place, so call set() again after changing a field that must survive a restart.
+ */
+export class PersistentMap<V> extends Map<string, V> {
+  constructor(readonly namespace: string) {
+    super()
+    maps.set(namespace, this as PersistentMap<unknown>)
+  }
+
+  set(key: string, value: V): this {
+    super.set(key, value)
+    persist()
+    return this
+  }
+
+  delete(key: string): boolean {
+    const deleted = super.delete(key)
+    if (deleted) persist()
+    return deleted
+  }
+}
+
+/**
+ * Load the store into every registered map. Call once at startup after all providers are imported.
+ * Returns the number of entries restored per namespace.
+ */
+export function restorePendingState(): Record<string, number> {
+  const counts: Record<string, number> = {}
+  if (!existsSync(STORE_FILE)) {
+    restored = true
+    return counts
+  }
+
+  let sections: Record<string, Record<string, unknown>>
+  try {
+    sections = JSON.parse(readFileSync(STORE_FILE, 'utf-8'), reviver)
+  } catch (err) {
+    console.error(`❌ Could not read ${STORE_FILE}: ${err instanceof Error ? err.message : err}`)
+    // Keep the unreadable file for manual recovery instead of overwriting it with empty maps
+    const corruptFile = `${STORE_FILE}.corrupt-${Date.now()}`
+    try {
+      renameSync(STORE_FILE, corruptFile)
+      console.error(`   Moved it to ${corruptFile} - pending swaps from before this run are not tracked`)
+      restored = true
+    } catch (renameErr) {
+      console.error(`   Could not move it aside (${renameErr instanceof Error ? renameErr.message : renameErr}) - pending swaps will not be saved`)
+    }
+    return counts
+  }
+  restored = true
+
+  orphanedSections = {}
+  for (const [namespace, entries] of Object.entries(sections)) {
+    const map = maps.get(namespace)
+    if (!map) {
+      orphanedSections[namespace] = entries
+      continue
+    }
+    for (const [key, value] of Object.entries(entries)) {
+      Map.prototype.set.call(map, key, value)
+    }
+    counts[namespace] = map.size
+  }
+  return counts
+}
+
+// Write all maps to disk (atomic rename so a crash mid-write can't truncate the store)
+function persist() {
+  // Never overwrite the file with empty maps before it has been loaded
+  if (!restored) restorePendingState()
+  if (!restored) return
+
+  const sections: Record<string, unknown> = { ...orphanedSections }
+  for (const [namespace, map] of maps) {
+    sections[namespace] = Object.fromEntries(map)
+  }
+  const tmpFile = `${STORE_FILE}.tmp`
+  writeFileSync(tmpFile, JSON.stringify(sections, replacer, 2))
+  renameSync(tmpFile, STORE_FILE)
+}
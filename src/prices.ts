@@ -1,39 +1,148 @@
 /**
- * Token price fetching utility using DefiLlama API
+ * Token price oracle: DefiLlama, Chainlink aggregators (on-chain) and Kraken's ticker,
+ * combined per token by median with divergence detection
  */
+import { BaseError, parseAbi } from 'viem'
+import { mainnetPublicClient } from './account.js'
+
+export type PriceToken = 'btc' | 'cbbtc' | 'usdc' | 'eth'
+const PRICE_TOKEN_LIST: PriceToken[] = ['btc', 'cbbtc', 'usdc', 'eth']
+
+// How each price was derived (recorded with every row that uses it)
+export interface PriceQuality {
+  sources: Record<PriceToken, string[]>  // sources that went into each median (empty if none answered)
+  stale: PriceToken[]      // no source answered - last good price reused
+  fallback: PriceToken[]   // no source answered and no previous price - hardcoded fallback used
+  divergent: PriceToken[]  // sources disagreed by more than PRICE_DIVERGENCE_BPS
+}
+
+export interface TokenPrices {
+  btc: number
+  cbbtc: number
+  usdc: number
+  eth: number
+  quality?: PriceQuality
+}
+
+export type SourcePrices = Partial<Record<PriceToken, number>>
+
+// Flag tokens whose sources differ from the median by more than this
+const PRICE_DIVERGENCE_BPS = 100 // 1%
 
 const DEFILLAMA_URL = 'https://coins.llama.fi/prices/current'
 
 // Tokens to track (coingecko IDs via DefiLlama)
-const PRICE_TOKENS = {
+const DEFILLAMA_TOKENS: Record<PriceToken, string> = {
   btc: 'coingecko:bitcoin',
   eth: 'coingecko:ethereum',
   cbbtc: 'coingecko:coinbase-wrapped-btc',
   usdc: 'coingecko:usd-coin',
 }
 
-export interface TokenPrices {
-  btc: number
-  cbbtc: number
-  usdc: number
-  eth: number
+// Chainlink USD aggregators on Ethereum mainnet (8 decimals); readings older than maxAge are ignored
+const CHAINLINK_FEEDS: Partial<Record<PriceToken, { address: `0x${string}`; maxAgeSec: number }>> = {
+  btc: { address: '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c', maxAgeSec: 2 * 3600 },
+  eth: { address: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419', maxAgeSec: 2 * 3600 },
+  usdc: { address: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6', maxAgeSec: 25 * 3600 },
+  cbbtc: { address: '0x2665701293fCbEB223D11A08D826563EDcCE423A', maxAgeSec: 25 * 3600 },
+}
+const CHAINLINK_DECIMALS = 8
+const AGGREGATOR_ABI = parseAbi([
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+])
+
+// Kraken USD ticker pairs (response keys use Kraken's asset codes); cbBTC isn't listed
+const KRAKEN_URL = 'https://api.kraken.com/0/public/Ticker?pair=XBTUSD,ETHUSD,USDCUSD'
+const KRAKEN_PAIRS: Record<string, PriceToken> = {
+  XXBTZUSD: 'btc',
+  XETHZUSD: 'eth',
+  USDCUSD: 'usdc',
 }
 
 // Price cache
 let priceCache: { prices: TokenPrices; timestamp: number } | null = null
 const PRICE_CACHE_TTL = 30_000 // 30 seconds
 
-// Fallback prices if API fails
-const FALLBACK_PRICES: TokenPrices = {
+// Last good median per token (reused, flagged stale, when every source fails)
+const lastGood: SourcePrices = {}
+
+// Freshness for monitoring (see getPriceFreshness): when each source last answered and each token was last live
+const sourceAnsweredAt = new Map<string, number>()
+const livePriceAt: Partial<Record<PriceToken, number>> = {}
+
+// Last-resort prices - any row using these is flagged with priceFallback
+const FALLBACK_PRICES: Record<PriceToken, number> = {
   btc: 100000,
   cbbtc: 100000,
   usdc: 1,
   eth: 3000,
 }
 
+// Map a DefiLlama coins response back to our tokens (tokens without a price are omitted)
+function fromDefiLlamaCoins(data: { coins: Record<string, { price: number }> }): SourcePrices {
+  return Object.fromEntries(PRICE_TOKEN_LIST
+    .filter(token => data.coins[DEFILLAMA_TOKENS[token]]?.price)
+    .map(token => [token, data.coins[DEFILLAMA_TOKENS[token]].price]))
+}
+
+async function fetchDefiLlama(): Promise<SourcePrices> {
+  const res = await fetch(`${DEFILLAMA_URL}/${Object.values(DEFILLAMA_TOKENS).join(',')}`)
+  if (!res.ok) throw new Error(`DefiLlama error: ${res.status}`)
+  return fromDefiLlamaCoins(await res.json() as { coins: Record<string, { price: number }> })
+}
+
+async function fetchChainlink(): Promise<SourcePrices> {
+  const prices: SourcePrices = {}
+  const now = Math.floor(Date.now() / 1000)
+  await Promise.all(Object.entries(CHAINLINK_FEEDS).map(async ([token, feed]) => {
+    try {
+      const [, answer, , updatedAt] = await mainnetPublicClient.readContract({
+        address: feed.address,
+        abi: AGGREGATOR_ABI,
+        functionName: 'latestRoundData',
+      })
+      if (answer <= 0n) return
+      if (now - Number(updatedAt) > feed.maxAgeSec) {
+        console.warn(`⚠️  Chainlink ${token.toUpperCase()}/USD last updated ${Math.round((now - Number(updatedAt)) / 60)}m ago - ignoring`)
+        return
+      }
+      prices[token as PriceToken] = Number(answer) / 10 ** CHAINLINK_DECIMALS
+    } catch (err) {
+      console.warn(`⚠️  Chainlink ${token.toUpperCase()}/USD read failed: ${err instanceof BaseError ? err.shortMessage : err instanceof Error ? err.message : err}`)
+    }
+  }))
+  return prices
+}
+
+async function fetchKraken(): Promise<SourcePrices> {
+  const res = await fetch(KRAKEN_URL)
+  if (!res.ok) throw new Error(`Kraken error: ${res.status}`)
+  const data = await res.json() as { error: string[]; result?: Record<string, { c: [string, string] }> }
+  if (data.error?.length) throw new Error(`Kraken error: ${data.error.join(', ')}`)
+  const prices: SourcePrices = {}
+  for (const [pair, ticker] of Object.entries(data.result || {})) {
+    const token = KRAKEN_PAIRS[pair]
+    const price = parseFloat(ticker.c[0])
+    if (token && price > 0) prices[token] = price
+  }
+  return prices
+}
+
+const SOURCES: Array<[string, () => Promise<SourcePrices>]> = [
+  ['defillama', fetchDefiLlama],
+  ['chainlink', fetchChainlink],
+  ['kraken', fetchKraken],
+]
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
 /**
- * Fetch current token prices from DefiLlama
- * Uses 30-second cache to avoid rate limits
+ * Fetch current token prices from all sources and take the median per token.
+ * Uses 30-second cache to avoid rate limits.
  */
 export async function getTokenPrices(): Promise<TokenPrices> {
   // Return cached prices if fresh
@@ -41,41 +150,100 @@ export async function getTokenPrices(): Promise<TokenPrices> {
     return priceCache.prices
   }
 
-  try {
-    const coins = Object.values(PRICE_TOKENS).join(',')
-    const url = `${DEFILLAMA_URL}/${coins}`
-    
-    const res = await fetch(url)
-    if (!res.ok) {
-      throw new Error(`DefiLlama error: ${res.status}`)
+  const results = await Promise.all(SOURCES.map(async ([name, fetchSource]) => {
+    try {
+      const sourcePrices = await fetchSource()
+      if (Object.keys(sourcePrices).length) sourceAnsweredAt.set(name, Date.now())
+      return [name, sourcePrices] as const
+    } catch (err) {
+      console.warn(`⚠️  Price source ${name} failed: ${err instanceof Error ? err.message : err}`)
+      return [name, {} as SourcePrices] as const
     }
+  }))
 
-    const data = await res.json() as { coins: Record<string, { price: number }> }
+  const prices = {} as Record<PriceToken, number>
+  const quality: PriceQuality = {
+    sources: { btc: [], cbbtc: [], usdc: [], eth: [] },
+    stale: [],
+    fallback: [],
+    divergent: [],
+  }
 
-    const prices: TokenPrices = {
-      btc: data.coins[PRICE_TOKENS.btc]?.price ?? priceCache?.prices.btc ?? FALLBACK_PRICES.btc,
-      eth: data.coins[PRICE_TOKENS.eth]?.price ?? priceCache?.prices.eth ?? FALLBACK_PRICES.eth,
-      cbbtc: data.coins[PRICE_TOKENS.cbbtc]?.price ?? priceCache?.prices.cbbtc ?? FALLBACK_PRICES.cbbtc,
-      usdc: data.coins[PRICE_TOKENS.usdc]?.price ?? priceCache?.prices.usdc ?? FALLBACK_PRICES.usdc,
+  for (const token of PRICE_TOKEN_LIST) {
+    const quotes = results.filter(([, sourcePrices]) => sourcePrices[token] !== undefined)
+    if (quotes.length === 0) {
+      if (lastGood[token] !== undefined) {
+        prices[token] = lastGood[token]!
+        quality.stale.push(token)
+        console.warn(`⚠️  No price source for ${token.toUpperCase()} - reusing last price $${prices[token]}`)
+      } else {
+        prices[token] = FALLBACK_PRICES[token]
+        quality.fallback.push(token)
+        console.error(`❌ No price source for ${token.toUpperCase()} - using hardcoded fallback $${prices[token]}, fees will be wrong`)
+      }
+      continue
     }
 
-    priceCache = { prices, timestamp: Date.now() }
-    return prices
-  } catch (error) {
-    console.error('Failed to fetch token prices:', error)
-    
-    // Return cached prices if available, otherwise fallback
-    if (priceCache) {
-      return priceCache.prices
+    const values = quotes.map(([, sourcePrices]) => sourcePrices[token]!)
+    prices[token] = median(values)
+    lastGood[token] = prices[token]
+    livePriceAt[token] = Date.now()
+    quality.sources[token] = quotes.map(([name]) => name)
+
+    const maxDeviationBps = Math.max(...values.map(value => Math.abs(value - prices[token]) / prices[token] * 10000))
+    if (maxDeviationBps > PRICE_DIVERGENCE_BPS) {
+      quality.divergent.push(token)
+      const detail = quotes.map(([name, sourcePrices]) => `${name}=$${sourcePrices[token]}`).join(', ')
+      console.warn(`⚠️  ${token.toUpperCase()} price sources diverge by ${maxDeviationBps.toFixed(0)} bps (${detail})`)
     }
-    return FALLBACK_PRICES
+  }
+
+  const tokenPrices: TokenPrices = { ...prices, quality }
+  priceCache = { prices: tokenPrices, timestamp: Date.now() }
+  return tokenPrices
+}
+
+export interface PriceFreshness {
+  fetchedAt: number | null  // last getTokenPrices fetch (ms)
+  sources: Record<string, number | null>     // last time each source returned a price
+  tokens: Record<PriceToken, number | null>  // last time each token's price came from a live source
+  quality: PriceQuality | null  // of the last fetch
+}
+
+/**
+ * How fresh the oracle's prices are (for /metrics)
+ */
+export function getPriceFreshness(): PriceFreshness {
+  return {
+    fetchedAt: priceCache?.timestamp ?? null,
+    sources: Object.fromEntries(SOURCES.map(([name]) => [name, sourceAnsweredAt.get(name) ?? null])),
+    tokens: Object.fromEntries(PRICE_TOKEN_LIST.map(token => [token, livePriceAt[token] ?? null])) as Record<PriceToken, number | null>,
+    quality: priceCache?.prices.quality ?? null,
   }
 }
 
 /**
  * Get a single token price by symbol
  */
-export async function getTokenPrice(token: 'btc' | 'cbbtc' | 'usdc' | 'eth'): Promise<number> {
+export async function getTokenPrice(token: PriceToken): Promise<number> {
   const prices = await getTokenPrices()
   return prices[token]
 }
+
+// Historical prices are immutable - cached per timestamp for backfills
+const DEFILLAMA_HISTORICAL_URL = 'https://coins.llama.fi/prices/historical'
+const historicalCache = new Map<number, SourcePrices>()
+
+/**
+ * DefiLlama prices at a past unix timestamp (seconds). Tokens DefiLlama has no price for are omitted.
+ */
+export async function getHistoricalPrices(timestampSec: number): Promise<SourcePrices> {
+  const cached = historicalCache.get(timestampSec)
+  if (cached) return cached
+
+  const res = await fetch(`${DEFILLAMA_HISTORICAL_URL}/${timestampSec}/${Object.values(DEFILLAMA_TOKENS).join(',')}`)
+  if (!res.ok) throw new Error(`DefiLlama historical error: ${res.status}`)
+  const prices = fromDefiLlamaCoins(await res.json() as { coins: Record<string, { price: number }> })
+  historicalCache.set(timestampSec, prices)
+  return prices
+}
@@ -7,13 +7,23 @@ import {
   sendBitcoin,
   waitForMempoolConfirmation,
 } from '../account.js'
+import { PersistentMap } from '../pending-store.js'
+import { type LifecycleStage, recordStage } from '../lifecycle.js'
+import { publish } from '../events.js'
 import {
   type Quote,
   type SwapResult,
   type SwapParams,
   type SettlementResult,
+  type ProviderQuoteResult,
+  type TokenAmount,
+  type FeeComponent,
+  type FeeType,
   toSmallestUnit,
-  fromSmallestUnit,
+  tokenAmount,
+  parseTokenAmount,
+  formatTokenAmount,
+  feeComponent,
   colorToken,
   colorPair,
 } from './types.js'
@@ -59,6 +69,42 @@ const CHAINFLIP_ASSETS: Record<string, { chain: typeof Chains[keyof typeof Chain
   // CBBTC - Chainflip may not support this yet, we'll check at runtime
 }
 
+// Chainflip includedFees types -> normalised fee types
+// NETWORK is Chainflip's protocol fee (burned), INGRESS/EGRESS are chain gas on deposit/payout
+const CHAINFLIP_FEE_TYPES: Record<string, FeeType> = {
+  INGRESS: 'network',
+  NETWORK: 'protocol',
+  LIQUIDITY: 'liquidity',
+  BOOST: 'liquidity',
+  BROKER: 'affiliate',
+  EGRESS: 'outbound',
+}
+
+// Extract normalised fee breakdown from a Chainflip quote's includedFees
+function extractFees(cfQuote: any): FeeComponent[] {
+  const includedFees = (cfQuote.includedFees || []) as Array<{ type: string; asset: string; amount: string }>
+  const components: FeeComponent[] = []
+  for (const fee of includedFees) {
+    const type = CHAINFLIP_FEE_TYPES[fee.type]
+    if (!type || !fee.amount || fee.amount === '0') continue
+    const component = feeComponent(type, fee.asset, fee.amount)
+    if (component) components.push(component)
+  }
+  return components
+}
+
+// Chainflip swap state (getStatusV2) -> lifecycle stage
+const CHAINFLIP_STAGES: Record<string, LifecycleStage> = {
+  WAITING: 'deposit_broadcast',   // channel open, deposit not witnessed
+  RECEIVING: 'deposit_confirmed', // deposit witnessed, awaiting confirmations/boost
+  SWAPPING: 'processing',
+  SENDING: 'processing',          // egress scheduled
+  SENT: 'payout_broadcast',
+  COMPLETE: 'payout_confirmed',
+  COMPLETED: 'payout_confirmed',
+  FAILED: 'failed',
+}
+
 // Check if a token is supported by Chainflip
 export function isSupportedToken(token: string): boolean {
   return token in CHAINFLIP_ASSETS
@@ -69,264 +115,327 @@ export function isSupportedSwap(inputToken: string, outputToken: string): boolea
   return isSupportedToken(inputToken) && isSupportedToken(outputToken)
 }
 
-// Store for tracking in-progress swaps
-const pendingSwaps = new Map<string, {
+// Store for tracking in-progress swaps (persisted so numericSwapId survives restarts)
+// Shared by all Chainflip variants - swap IDs are unique across them
+const pendingSwaps = new PersistentMap<{
   swapId: string
   depositTxHash: string | null
   numericSwapId: string | null  // The Chainflip explorer ID (e.g., 1263233)
   srcChain: string
   destChain: string
-  expectedAmount: string
+  outputToken: string
+  expectedAmount: TokenAmount
+  routeDetails?: string
   status: string
-}>()
+}>('Chainflip')
+
+/**
+ * Chainflip offerings compared as separate providers:
+ * - REGULAR: single swap
+ * - DCA: input split into chunks executed over several blocks
+ * - BOOST: BTC deposit credited before confirmation for a boost fee (BTC input only)
+ */
+type ChainflipVariant = 'REGULAR' | 'DCA' | 'BOOST'
+
+// Pick the quote for a variant from getQuoteV2's response
+function selectQuote(quotes: any[], variant: ChainflipVariant): any {
+  if (variant === 'BOOST') {
+    // Boost quotes are nested on the regular quote
+    return quotes.find((q: any) => q.type === 'REGULAR')?.boostQuote
+  }
+  return quotes.find((q: any) => q.type === variant)
+}
 
-export interface ChainflipQuoteResult {
-  quote: Quote
-  execute: () => Promise<SwapResult>
+// Describe the chunking/boost parameters of a quote ("key=value;...")
+function quoteRouteDetails(cfQuote: any, variant: ChainflipVariant): string | undefined {
+  if (variant === 'DCA' && cfQuote.dcaParams) {
+    return `chunks=${cfQuote.dcaParams.numberOfChunks};intervalBlocks=${cfQuote.dcaParams.chunkIntervalBlocks}`
+  }
+  if (variant === 'BOOST') {
+    return `maxBoostFeeBps=${cfQuote.maxBoostFeeBps};estimatedBoostFeeBps=${cfQuote.estimatedBoostFeeBps}`
+  }
+  return undefined
 }
 
-export const chainflip = {
-  name: 'Chainflip',
+// Describe the chunking/boost actually applied, from a getStatusV2 response
+function statusRouteDetails(status: any, quoted: string | undefined): string | undefined {
+  const dca = status.swap?.dca
+  if (dca) {
+    return `chunks=${dca.executedChunks ?? '?'}${quoted ? `;quoted:${quoted}` : ''}`
+  }
+  const boost = status.boost
+  if (boost) {
+    if (boost.skippedAt) return `boost=skipped;maxBoostFeeBps=${boost.maxBoostFeeBps}`
+    return `effectiveBoostFeeBps=${boost.effectiveBoostFeeBps ?? '?'};maxBoostFeeBps=${boost.maxBoostFeeBps}`
+  }
+  return quoted
+}
 
-  // Check if this provider supports the given swap pair
-  supportsSwap(inputToken: string, outputToken: string): boolean {
-    return isSupportedSwap(inputToken, outputToken)
-  },
+function createChainflipProvider(name: string, variant: ChainflipVariant) {
+  return {
+    name,
 
-  async getQuote(params: SwapParams): Promise<ChainflipQuoteResult> {
-    const { inputToken, outputToken, inputAmount } = params
-
-    const srcAsset = CHAINFLIP_ASSETS[inputToken]
-    const destAsset = CHAINFLIP_ASSETS[outputToken]
-
-    if (!srcAsset) {
-      throw new Error(`Chainflip: ${inputToken} not supported`)
-    }
-    if (!destAsset) {
-      throw new Error(`Chainflip: ${outputToken} not supported`)
-    }
-
-    // Determine if this is a vault swap (EVM input) or deposit address swap (BTC input)
-    const isVaultSwap = inputToken !== 'BTC'
-
-    // Convert amount to smallest unit
-    const amountInSmallestUnit = toSmallestUnit(inputAmount, inputToken)
-
-    console.log(`   🔄 Fetching Chainflip quote...`)
-    console.log(`      ${inputAmount} ${inputToken} -> ${outputToken}`)
-    console.log(`      Amount in smallest unit: ${amountInSmallestUnit}`)
-
-    // Get quote from Chainflip
-    let quotes: any[]
-    try {
-      const response = await sdk.getQuoteV2({
-        srcChain: srcAsset.chain,
-        srcAsset: srcAsset.asset,
-        destChain: destAsset.chain,
-        destAsset: destAsset.asset,
-        amount: amountInSmallestUnit,
-        ...(isVaultSwap && { isVaultSwap: true }),
-      })
-      quotes = response.quotes
-    } catch (err: any) {
-      console.log(`   ❌ Chainflip quote error:`, err?.response?.data || err?.message || err)
-      throw err
-    }
-
-    // Find regular quote (not DCA)
-    const cfQuote = quotes.find((q: any) => q.type === 'REGULAR') as any
-    if (!cfQuote) {
-      throw new Error('Chainflip: No regular quote available')
-    }
-
-    // Convert output amount to human-readable
-    const outputAmountSmallest = cfQuote.egressAmount || cfQuote.estimatedEgressAmount || cfQuote.estimatedOutput
-    const outputAmount = fromSmallestUnit(outputAmountSmallest, outputToken)
-
-    const quoteResult: Quote = {
-      provider: 'Chainflip',
-      inputToken,
-      outputToken,
-      inputAmount,
-      outputAmount,
-      raw: cfQuote,
-    }
-
-    // Execute function
-    const execute = async (): Promise<SwapResult> => {
-      console.log(`\n🔄 Executing Chainflip swap...`)
-      console.log(`   Direction: ${colorPair(inputToken, outputToken)}`)
-      console.log(`   Amount: ${inputAmount} ${colorToken(inputToken)}`)
-
-      let swapId: string
-      let txHash: string | null = null
-
-      if (inputToken === 'BTC') {
-        // BTC -> EVM: Use deposit address method
-        const result = await executeBtcSwap(cfQuote, inputToken, outputToken, inputAmount, amountInSmallestUnit)
-        swapId = result.swapId
-        txHash = result.txHash
-      } else {
-        // EVM -> BTC: Use vault swap method
-        const result = await executeEvmSwap(cfQuote, inputToken, outputToken, inputAmount, amountInSmallestUnit)
-        swapId = result.swapId
-        txHash = result.txHash
+    // Check if this provider supports the given swap pair
+    supportsSwap(inputToken: string, outputToken: string): boolean {
+      // Boost only applies to BTC deposits
+      if (variant === 'BOOST' && inputToken !== 'BTC') return false
+      return isSupportedSwap(inputToken, outputToken)
+    },
+
+    async getQuote(params: SwapParams): Promise<ProviderQuoteResult> {
+      const { inputToken, outputToken, inputAmount } = params
+
+      const srcAsset = CHAINFLIP_ASSETS[inputToken]
+      const destAsset = CHAINFLIP_ASSETS[outputToken]
+
+      if (!srcAsset) {
+        throw new Error(`Chainflip: ${inputToken} not supported`)
+      }
+      if (!destAsset) {
+        throw new Error(`Chainflip: ${outputToken} not supported`)
       }
 
-      console.log(`✅ Chainflip swap initiated`)
-      console.log(`   Swap ID: ${swapId}`)
-      if (txHash) {
-        const explorer = inputToken === 'BTC'
-          ? `https://mempool.space/tx/${txHash}`
-          : `https://etherscan.io/tx/${txHash}`
-        console.log(`   Tx: ${txHash}`)
-        console.log(`   ${explorer}`)
+      // Determine if this is a vault swap (EVM input) or deposit address swap (BTC input)
+      const isVaultSwap = inputToken !== 'BTC'
+
+      // Convert amount to smallest unit
+      const amountInSmallestUnit = toSmallestUnit(inputAmount, inputToken)
+
+      console.log(`   🔄 Fetching Chainflip quote...`)
+      console.log(`      ${inputAmount} ${inputToken} -> ${outputToken}`)
+      console.log(`      Amount in smallest unit: ${amountInSmallestUnit}`)
+
+      // Get quote from Chainflip
+      let quotes: any[]
+      try {
+        const response = await sdk.getQuoteV2({
+          srcChain: srcAsset.chain,
+          srcAsset: srcAsset.asset,
+          destChain: destAsset.chain,
+          destAsset: destAsset.asset,
+          amount: amountInSmallestUnit,
+          ...(isVaultSwap && { isVaultSwap: true }),
+        })
+        quotes = response.quotes
+      } catch (err: any) {
+        console.log(`   ❌ Chainflip quote error:`, err?.response?.data || err?.message || err)
+        throw err
       }
 
-      // Store for settlement tracking
-      pendingSwaps.set(swapId, {
-        swapId,
-        depositTxHash: txHash,
-        numericSwapId: null,  // Will be populated when Chainflip indexes the swap
-        srcChain: srcAsset.chain,
-        destChain: destAsset.chain,
-        expectedAmount: outputAmount,
-        status: 'pending',
-      })
+      const cfQuote = selectQuote(quotes, variant)
+      if (!cfQuote) {
+        throw new Error(`${name}: ${variant.toLowerCase()} route not supported for this pair and amount`)
+      }
+      const routeDetails = quoteRouteDetails(cfQuote, variant)
 
-      return {
-        provider: 'Chainflip',
-        success: true,
-        swapId,
-        txHash,
+      // Chainflip returns egress amounts in base units
+      const outputAmountSmallest = cfQuote.egressAmount || cfQuote.estimatedEgressAmount || cfQuote.estimatedOutput
+      const outputAmount = tokenAmount(outputToken, outputAmountSmallest)
+
+      const quoteResult: Quote = {
+        provider: name,
         inputToken,
         outputToken,
-        inputAmount,
+        inputAmount: parseTokenAmount(inputAmount, inputToken),
         outputAmount,
-        timestamp: Date.now(),
+        fees: extractFees(cfQuote),
+        routeDetails,
+        raw: cfQuote,
       }
-    }
 
-    return { quote: quoteResult, execute }
-  },
+      // Execute function
+      const execute = async (): Promise<SwapResult> => {
+        console.log(`\n🔄 Executing ${name} swap...`)
+        console.log(`   Direction: ${colorPair(inputToken, outputToken)}`)
+        console.log(`   Amount: ${inputAmount} ${colorToken(inputToken)}`)
+        if (routeDetails) {
+          console.log(`   Route: ${routeDetails}`)
+        }
+
+        // BTC -> EVM: Use deposit address method
+        // EVM -> BTC: Use vault swap method
+        const { swapId, txHash, networkTxs } = inputToken === 'BTC'
+          ? await executeBtcSwap(cfQuote, inputToken, outputToken, inputAmount, amountInSmallestUnit)
+          : await executeEvmSwap(cfQuote, inputToken, outputToken, inputAmount, amountInSmallestUnit)
+
+        console.log(`✅ ${name} swap initiated`)
+        console.log(`   Swap ID: ${swapId}`)
+        if (txHash) {
+          const explorer = inputToken === 'BTC'
+            ? `https://mempool.space/tx/${txHash}`
+            : `https://etherscan.io/tx/${txHash}`
+          console.log(`   Tx: ${txHash}`)
+          console.log(`   ${explorer}`)
+        }
 
-  /**
-   * Check settlement status for a Chainflip swap
-   */
-  async checkSettlementOnce(swapId: string, verbose = true): Promise<SettlementResult | null> {
-    const storedSwap = pendingSwaps.get(swapId)
+        // Store for settlement tracking
+        pendingSwaps.set(swapId, {
+          swapId,
+          depositTxHash: txHash,
+          numericSwapId: null,  // Will be populated when Chainflip indexes the swap
+          srcChain: srcAsset.chain,
+          destChain: destAsset.chain,
+          outputToken,
+          expectedAmount: outputAmount,
+          routeDetails,
+          status: 'pending',
+        })
 
-    if (!storedSwap) {
-      // Already settled or not tracked - skip silently
-      return null
-    }
+        return {
+          provider: name,
+          success: true,
+          swapId,
+          txHash,
+          inputToken,
+          outputToken,
+          inputAmount: quoteResult.inputAmount,
+          outputAmount,
+          routeDetails,
+          networkTxs,
+          timestamp: Date.now(),
+        }
+      }
 
-    console.log(`   🔄 Checking Chainflip swap: ${swapId.slice(0, 16)}...`)
+      return { quote: quoteResult, execute }
+    },
 
-    try {
-      const status = await sdk.getStatusV2({ id: swapId })
+    /**
+     * Check settlement status for a Chainflip swap
+     */
+    async checkSettlementOnce(swapId: string, verbose = true): Promise<SettlementResult | null> {
+      const storedSwap = pendingSwaps.get(swapId)
 
-      if (!status) {
-        console.log(`   ⏳ No status found yet`)
+      if (!storedSwap) {
+        // Already settled or not tracked - skip silently
         return null
       }
 
-      const state = (status as any).state || (status as any).status
-      const statusSwapId = (status as any).swapId
-      console.log(`   📊 Status: ${state}${statusSwapId ? ` | CF#${statusSwapId}` : ' | (no swapId yet)'}`)
-      
-      // Extract numeric swap ID for explorer link (e.g., 1263424)
-      const numericSwapId = (status as any).swapId
-      
-      // Store numeric swap ID if we found it
-      if (numericSwapId && !storedSwap.numericSwapId) {
-        storedSwap.numericSwapId = String(numericSwapId)
-        console.log(`   🔢 Chainflip Swap ID: ${numericSwapId} -> https://scan.chainflip.io/swaps/${numericSwapId}`)
-      }
+      console.log(`   🔄 Checking ${name} swap: ${swapId.slice(0, 16)}...`)
+
+      try {
+        const status = await sdk.getStatusV2({ id: swapId })
 
-      if (state === 'COMPLETE' || state === 'COMPLETED') {
-        // Extract egress tx hash from swapEgress.txRef
-        const egressTx = (status as any).swapEgress?.txRef || (status as any).egressTxHash || (status as any).destTxHash
-        // Extract actual output amount from swapEgress.amount
-        const actualAmount = (status as any).swapEgress?.amount || (status as any).egressAmount || (status as any).destAmount
-
-        console.log(`   ✅ Chainflip swap completed!`)
-        if (egressTx) {
-          const isBtcPayout = storedSwap.destChain === Chains.Bitcoin
-          const explorer = isBtcPayout
-            ? `https://mempool.space/tx/${egressTx}`
-            : `https://etherscan.io/tx/${egressTx}`
-          console.log(`   🔗 Payout Tx: ${egressTx}`)
-          console.log(`      ${explorer}`)
+        if (!status) {
+          console.log(`   ⏳ No status found yet`)
+          return null
         }
-        if (actualAmount) {
-          console.log(`   💰 Actual Output: ${actualAmount}`)
+
+        // Status fields we read (their shape differs between swap states)
+        const fields = status as unknown as { state?: string; status?: string; swapId?: string | number; refundEgress?: unknown }
+        const state = fields.state || fields.status || ''
+        // Numeric swap ID for the explorer link (e.g., 1263424)
+        const numericSwapId = fields.swapId
+        console.log(`   📊 Status: ${state}${numericSwapId ? ` | CF#${numericSwapId}` : ' | (no swapId yet)'}`)
+        // A failed swap with a refund egress was refunded rather than lost
+        const stage = state === 'FAILED' && fields.refundEgress ? 'refunded' : CHAINFLIP_STAGES[state]
+        if (stage) {
+          recordStage(swapId, name, stage, state)
         }
 
-        // Remove from pending swaps
-        pendingSwaps.delete(swapId)
+        // Store numeric swap ID if we found it
+        if (numericSwapId && !storedSwap.numericSwapId) {
+          storedSwap.numericSwapId = String(numericSwapId)
+          pendingSwaps.set(swapId, storedSwap)
+          console.log(`   🔢 Chainflip Swap ID: ${numericSwapId} -> https://scan.chainflip.io/swaps/${numericSwapId}`)
+          publish({ type: 'chainflip-id', swapId, numericSwapId: storedSwap.numericSwapId })
+        }
 
-        return {
-          swapId,
-          status: 'completed',
-          payoutTxHash: egressTx || null,
-          actualOutputAmount: actualAmount || null,
-          settledAt: Date.now(),
-          chainflipSwapId: numericSwapId ? String(numericSwapId) : null,
+        if (state === 'COMPLETE' || state === 'COMPLETED') {
+          // Extract egress tx hash from swapEgress.txRef
+          const egressTx = (status as any).swapEgress?.txRef || (status as any).egressTxHash || (status as any).destTxHash
+          // Extract actual output amount from swapEgress.amount
+          const actualUnits = (status as any).swapEgress?.amount || (status as any).egressAmount || (status as any).destAmount
+          const actualAmount = actualUnits ? tokenAmount(storedSwap.outputToken, actualUnits) : null
+
+          const routeDetails = statusRouteDetails(status, storedSwap.routeDetails)
+
+          console.log(`   ✅ ${name} swap completed!`)
+          if (egressTx) {
+            const isBtcPayout = storedSwap.destChain === Chains.Bitcoin
+            const explorer = isBtcPayout
+              ? `https://mempool.space/tx/${egressTx}`
+              : `https://etherscan.io/tx/${egressTx}`
+            console.log(`   🔗 Payout Tx: ${egressTx}`)
+            console.log(`      ${explorer}`)
+          }
+          if (actualAmount) {
+            console.log(`   💰 Actual Output: ${formatTokenAmount(actualAmount)} ${colorToken(actualAmount.token)}`)
+          }
+          if (routeDetails) {
+            console.log(`   🧩 Route: ${routeDetails}`)
+          }
+
+          // Remove from pending swaps
+          pendingSwaps.delete(swapId)
+
+          return {
+            swapId,
+            status: 'completed',
+            payoutTxHash: egressTx || null,
+            actualOutputAmount: actualAmount,
+            settledAt: Date.now(),
+            chainflipSwapId: numericSwapId ? String(numericSwapId) : null,
+            routeDetails,
+          }
         }
-      }
 
-      if (state === 'FAILED') {
-        console.log(`   ❌ Chainflip swap failed`)
-        pendingSwaps.delete(swapId)
-        return {
-          swapId,
-          status: 'failed',
-          payoutTxHash: null,
-          actualOutputAmount: null,
-          settledAt: Date.now(),
+        if (state === 'FAILED') {
+          console.log(`   ❌ ${name} swap ${stage === 'refunded' ? 'refunded' : 'failed'}`)
+          pendingSwaps.delete(swapId)
+          return {
+            swapId,
+            status: stage === 'refunded' ? 'refunded' : 'failed',
+            payoutTxHash: null,
+            actualOutputAmount: null,
+            settledAt: Date.now(),
+            routeDetails: statusRouteDetails(status, storedSwap.routeDetails),
+          }
         }
-      }
 
-      // Still in progress
-      console.log(`   ⏳ Status: ${state}`)
-      return null
+        // Still in progress
+        console.log(`   ⏳ Status: ${state}`)
+        return null
 
-    } catch (error: any) {
-      // 404 means Chainflip hasn't indexed the swap yet - this is expected for vault swaps
-      if (error?.response?.status === 404 || error?.status === 404) {
-        console.log(`   ⏳ Not yet indexed (tx may still be confirming)`)
+      } catch (error: any) {
+        // 404 means Chainflip hasn't indexed the swap yet - this is expected for vault swaps
+        if (error?.response?.status === 404 || error?.status === 404) {
+          console.log(`   ⏳ Not yet indexed (tx may still be confirming)`)
+          return null
+        }
+        // Log other errors more concisely
+        const msg = error?.message || error
+        console.log(`   ❌ Error checking status: ${msg}`)
         return null
       }
-      // Log other errors more concisely
-      const msg = error?.message || error
-      console.log(`   ❌ Error checking status: ${msg}`)
-      return null
-    }
-  },
+    },
 
-  /**
-   * Get status string for display
-   */
-  async getStatusString(swapId: string): Promise<string> {
-    const swap = pendingSwaps.get(swapId)
-    if (!swap) return 'unknown'
-    return swap.status
-  },
+    /**
+     * Get status string for display
+     */
+    async getStatusString(swapId: string): Promise<string> {
+      const swap = pendingSwaps.get(swapId)
+      if (!swap) return 'unknown'
+      return swap.status
+    },
 
-  /**
-   * Get pending swap info including numeric swap ID (for UI display before settlement)
-   */
-  getPendingSwapInfo(swapId: string): { numericSwapId: string | null; status: string } | null {
-    const swap = pendingSwaps.get(swapId)
-    if (!swap) return null
-    return {
-      numericSwapId: swap.numericSwapId,
-      status: swap.status,
-    }
-  },
+    /**
+     * Get pending swap info including numeric swap ID (for UI display before settlement)
+     */
+    getPendingSwapInfo(swapId: string): { numericSwapId: string | null; status: string } | null {
+      const swap = pendingSwaps.get(swapId)
+      if (!swap) return null
+      return {
+        numericSwapId: swap.numericSwapId,
+        status: swap.status,
+      }
+    },
+  }
 }
 
+export const chainflip = createChainflipProvider('Chainflip', 'REGULAR')
+export const chainflipDca = createChainflipProvider('Chainflip-DCA', 'DCA')
+export const chainflipBoost = createChainflipProvider('Chainflip-Boost', 'BOOST')
+
 // Execute BTC -> EVM swap using deposit address
 async function executeBtcSwap(
   cfQuote: any,
@@ -334,12 +443,12 @@ async function executeBtcSwap(
   outputToken: string,
   inputAmount: string,
   amountInSmallestUnit: string
-): Promise<{ swapId: string; txHash: string }> {
+): Promise<{ swapId: string; txHash: string; networkTxs: string[] }> {
   const destAsset = CHAINFLIP_ASSETS[outputToken]
 
   console.log(`   📥 Requesting deposit address...`)
 
-  // Request deposit address
+  // Request deposit address (a boost quote carries maxBoostFeeBps, which the SDK applies to the channel)
   const depositAddress = await sdk.requestDepositAddressV2({
     quote: cfQuote,
     destAddress: EVM_ADDRESS,
@@ -365,6 +474,7 @@ async function executeBtcSwap(
   return {
     swapId: channelId,
     txHash,
+    networkTxs: [txHash],
   }
 }
 
@@ -375,7 +485,7 @@ async function executeEvmSwap(
   outputToken: string,
   inputAmount: string,
   amountInSmallestUnit: string
-): Promise<{ swapId: string; txHash: string }> {
+): Promise<{ swapId: string; txHash: string; networkTxs: string[] }> {
   if (!mainnetWalletClient) {
     throw new Error('Chainflip: Wallet client not available')
   }
@@ -396,6 +506,7 @@ async function executeEvmSwap(
 
   const txData = transactionData as any
   const vaultAddress = txData.to as `0x${string}`
+  const networkTxs: string[] = []
 
   // For ERC20 tokens (USDC), we need to approve the vault contract first
   if (inputToken === 'USDC') {
@@ -408,6 +519,7 @@ async function executeEvmSwap(
       args: [vaultAddress, BigInt(amountInSmallestUnit)],
     })
     await mainnetPublicClient.waitForTransactionReceipt({ hash: approveHash })
+    networkTxs.push(approveHash)
     console.log(`   ✓ Approved`)
   }
 
@@ -422,9 +534,11 @@ async function executeEvmSwap(
 
   console.log(`   ⏳ Waiting for confirmation...`)
   await mainnetPublicClient.waitForTransactionReceipt({ hash })
+  networkTxs.push(hash)
 
   return {
     swapId: hash,
     txHash: hash,
+    networkTxs,
   }
 }
@@ -1,4 +1,8 @@
 export * from './types.js'
+export * from './registry.js'
 export { rift } from './rift.js'
+export { relay } from './relay.js'
 export { thorchain } from './thorchain.js'
-export { chainflip } from './chainflip.js'
+export { chainflip, chainflipDca, chainflipBoost } from './chainflip.js'
+export { nearIntents } from './near-intents.js'
+export { maya } from './maya.js'
@@ -0,0 +1,30 @@
+import { createThorchainLikeProvider, type ThorchainLikeAsset } from './thorchain-like.js'
+
+// Maya asset notation (same CHAIN.SYMBOL-CONTRACT format as THORChain)
+// Reference: https://mayanode.mayachain.info/mayachain/pools
+const MAYA_ASSETS: Record<string, ThorchainLikeAsset> = {
+  BTC: {
+    asset: 'BTC.BTC',
+    decimals: 8,
+  },
+  ETH: {
+    asset: 'ETH.ETH',
+    decimals: 18,
+  },
+  USDC: {
+    asset: 'ETH.USDC-0XA0B86991C6218B36C1D19D4A2E9EB0CE3606EB48',
+    decimals: 6,
+    contract: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  },
+}
+
+export const maya = createThorchainLikeProvider({
+  name: 'Maya',
+  label: 'Maya',
+  emoji: '🐉',
+  quoteUrl: 'https://mayanode.mayachain.info/mayachain/quote/swap',
+  midgardApi: 'https://midgard.mayachain.info',
+  protocolDecimals: 8,  // external assets are 1e8 on Maya (only CACAO uses 1e10, which we never trade)
+  toleranceBps: 1000,
+  assets: MAYA_ASSETS,
+})
@@ -0,0 +1,378 @@
+import { OneClickService, OpenAPI, QuoteRequest, GetExecutionStatusResponse } from '@defuse-protocol/one-click-sdk-typescript'
+import {
+  mainnetWalletClient,
+  mainnetPublicClient,
+  BTC_ADDRESS,
+  EVM_ADDRESS,
+  getDestinationAddress,
+  sendBitcoin,
+  waitForMempoolConfirmation,
+} from '../account.js'
+import { PersistentMap } from '../pending-store.js'
+import { type LifecycleStage, recordStage } from '../lifecycle.js'
+import {
+  type Quote,
+  type SwapResult,
+  type SwapParams,
+  type SettlementResult,
+  type ProviderQuoteResult,
+  type FeeComponent,
+  toSmallestUnit,
+  tokenAmount,
+  parseTokenAmount,
+  formatTokenAmount,
+  feeComponent,
+  colorToken,
+  colorPair,
+} from './types.js'
+
+// 1Click API - JWT is optional (unauthenticated requests pay a small extra fee)
+OpenAPI.BASE = 'https://1click.chaindefuser.com'
+if (process.env.ONECLICK_JWT) {
+  OpenAPI.TOKEN = process.env.ONECLICK_JWT
+}
+
+// Slippage tolerance in basis points
+const SLIPPAGE_BPS = 100
+
+// Abort if the executable quote pays this much less than the dry quote we compared
+const MAX_REQUOTE_DRIFT_BPS = 50n
+
+// Deposit address deadline - must cover BTC confirmation time
+const DEADLINE_MS = 2 * 60 * 60 * 1000
+
+// NEAR Intents asset mapping
+// Maps our token names to 1Click asset IDs (omft bridged tokens) and the EVM contract for deposits
+const NEAR_INTENTS_ASSETS: Record<string, { assetId: string; contract?: `0x${string}` }> = {
+  BTC: {
+    assetId: 'nep141:btc.omft.near',
+  },
+  ETH: {
+    assetId: 'nep141:eth.omft.near',
+  },
+  USDC: {
+    assetId: 'nep141:eth-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.omft.near',
+    contract: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  },
+  CBBTC: {
+    assetId: 'nep141:eth-0xcbb7c0000ab88b473b1f5afd9ef808440eed33bf.omft.near',
+    contract: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf',
+  },
+}
+
+// ERC20 ABI for transfer
+const ERC20_ABI = [
+  {
+    name: 'transfer',
+    type: 'function',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
+] as const
+
+// Extract normalised fee breakdown from a 1Click quote
+// 1Click only itemises the withdrawal (payout) fee; solver spread is implicit in amountOut
+function extractFees(niQuote: any, outputToken: string): FeeComponent[] {
+  const components: FeeComponent[] = []
+  if (niQuote.withdrawFee && niQuote.withdrawFee !== '0') {
+    const component = feeComponent('outbound', outputToken, niQuote.withdrawFee)
+    if (component) components.push(component)
+  }
+  return components
+}
+
+// 1Click execution status -> lifecycle stage
+const NEAR_INTENTS_STAGES: Record<string, LifecycleStage> = {
+  PENDING_DEPOSIT: 'deposit_broadcast',
+  KNOWN_DEPOSIT_TX: 'deposit_broadcast',
+  INCOMPLETE_DEPOSIT: 'deposit_confirmed',  // deposit below quoted amount - refunded at deadline
+  PROCESSING: 'processing',
+  SUCCESS: 'payout_confirmed',
+  REFUNDED: 'refunded',
+  FAILED: 'failed',
+}
+
+// Check if a token is supported by NEAR Intents
+export function isSupportedToken(token: string): boolean {
+  return token in NEAR_INTENTS_ASSETS
+}
+
+// Check if a swap pair is supported by NEAR Intents (BTC <-> EVM only)
+export function isSupportedSwap(inputToken: string, outputToken: string): boolean {
+  if (!isSupportedToken(inputToken) || !isSupportedToken(outputToken)) return false
+  return (inputToken === 'BTC') !== (outputToken === 'BTC')
+}
+
+// Store for tracking in-progress swaps (keyed by deposit address)
+const pendingSwaps = new PersistentMap<{
+  depositAddress: string
+  depositTxHash: string | null
+  outputToken: string
+  status: string
+}>('NearIntents')
+
+export const nearIntents = {
+  name: 'NearIntents',
+
+  // Check if this provider supports the given swap pair
+  supportsSwap(inputToken: string, outputToken: string): boolean {
+    return isSupportedSwap(inputToken, outputToken)
+  },
+
+  async getQuote(params: SwapParams): Promise<ProviderQuoteResult> {
+    const { inputToken, outputToken, inputAmount } = params
+
+    const srcAsset = NEAR_INTENTS_ASSETS[inputToken]
+    const destAsset = NEAR_INTENTS_ASSETS[outputToken]
+
+    if (!srcAsset) {
+      throw new Error(`NearIntents: ${inputToken} not supported`)
+    }
+    if (!destAsset) {
+      throw new Error(`NearIntents: ${outputToken} not supported`)
+    }
+
+    // Convert amount to smallest unit
+    const amountInSmallestUnit = toSmallestUnit(inputAmount, inputToken)
+
+    console.log(`   🌐 Fetching NEAR Intents quote...`)
+    console.log(`      ${inputAmount} ${inputToken} -> ${outputToken}`)
+    console.log(`      Amount in smallest unit: ${amountInSmallestUnit}`)
+
+    // Dry quotes don't open a deposit address; execute() requests a real one
+    const requestQuote = async (dry: boolean) => {
+      try {
+        return await OneClickService.getQuote({
+          dry,
+          swapType: QuoteRequest.swapType.EXACT_INPUT,
+          slippageTolerance: SLIPPAGE_BPS,
+          originAsset: srcAsset.assetId,
+          depositType: QuoteRequest.depositType.ORIGIN_CHAIN,
+          destinationAsset: destAsset.assetId,
+          amount: amountInSmallestUnit,
+          refundTo: inputToken === 'BTC' ? BTC_ADDRESS : EVM_ADDRESS,
+          refundType: QuoteRequest.refundType.ORIGIN_CHAIN,
+          recipient: getDestinationAddress(outputToken),
+          recipientType: QuoteRequest.recipientType.DESTINATION_CHAIN,
+          deadline: new Date(Date.now() + DEADLINE_MS).toISOString(),
+        })
+      } catch (err: any) {
+        console.log(`   ❌ NEAR Intents quote error:`, err?.body || err?.message || err)
+        throw err
+      }
+    }
+
+    const response = await requestQuote(true)
+    const niQuote = response.quote
+
+    // 1Click returns amounts in base units
+    const outputAmount = tokenAmount(outputToken, niQuote.amountOut)
+
+    const quoteResult: Quote = {
+      provider: 'NearIntents',
+      inputToken,
+      outputToken,
+      inputAmount: parseTokenAmount(inputAmount, inputToken),
+      outputAmount,
+      fees: extractFees(niQuote, outputToken),
+      raw: response,
+    }
+
+    // Execute function
+    const execute = async (): Promise<SwapResult> => {
+      console.log(`\n🌐 Executing NEAR Intents swap...`)
+      console.log(`   Direction: ${colorPair(inputToken, outputToken)}`)
+      console.log(`   Amount: ${inputAmount} ${colorToken(inputToken)}`)
+
+      // The swap is logged and compared at the executable quote's output and fees, not the dry one's
+      const executable = (await requestQuote(false)).quote
+      const depositAddress = executable.depositAddress
+      if (!depositAddress) {
+        throw new Error('NearIntents: Quote has no deposit address')
+      }
+      const executedOutput = tokenAmount(outputToken, executable.amountOut)
+      const driftBps = outputAmount.units > 0n ? (executedOutput.units - outputAmount.units) * 10000n / outputAmount.units : 0n
+      if (driftBps < -MAX_REQUOTE_DRIFT_BPS) {
+        throw new Error(`NearIntents: executable quote ${formatTokenAmount(executedOutput)} ${outputToken} is ${-driftBps} bps below the dry quote`)
+      }
+      const executedFees = extractFees(executable, outputToken)
+      const routeDetails = executedOutput.units !== outputAmount.units
+        ? [
+            `dryQuote=${formatTokenAmount(outputAmount)}`,
+            `driftBps=${driftBps}`,
+            ...executedFees.map(fee => `${fee.type}Fee=${formatTokenAmount(fee.amount)}`),
+          ].join(';')
+        : undefined
+      console.log(`   📍 Deposit address: ${depositAddress}`)
+      if (routeDetails) {
+        console.log(`   🧩 Re-quoted: ${formatTokenAmount(executedOutput)} ${outputToken} (${routeDetails})`)
+      }
+
+      let txHash: string
+      if (inputToken === 'BTC') {
+        txHash = await sendBitcoin(depositAddress, BigInt(amountInSmallestUnit))
+        await waitForMempoolConfirmation(txHash)
+      } else {
+        txHash = await depositEvm(depositAddress, inputToken, BigInt(amountInSmallestUnit))
+      }
+
+      // Let 1Click know about the deposit so it doesn't wait for its own indexer
+      try {
+        await OneClickService.submitDepositTx({ txHash, depositAddress })
+      } catch (err: any) {
+        console.log(`   ⚠️ Failed to submit deposit tx: ${err?.message || err}`)
+      }
+
+      console.log(`✅ NEAR Intents swap initiated`)
+      console.log(`   Swap ID: ${depositAddress}`)
+      const explorer = inputToken === 'BTC'
+        ? `https://mempool.space/tx/${txHash}`
+        : `https://etherscan.io/tx/${txHash}`
+      console.log(`   Tx: ${txHash}`)
+      console.log(`   ${explorer}`)
+
+      // Store for settlement tracking
+      pendingSwaps.set(depositAddress, {
+        depositAddress,
+        depositTxHash: txHash,
+        outputToken,
+        status: 'pending',
+      })
+
+      return {
+        provider: 'NearIntents',
+        success: true,
+        swapId: depositAddress,
+        txHash,
+        inputToken,
+        outputToken,
+        inputAmount: quoteResult.inputAmount,
+        outputAmount: executedOutput,
+        routeDetails,
+        networkTxs: [txHash],
+        timestamp: Date.now(),
+      }
+    }
+
+    return { quote: quoteResult, execute }
+  },
+
+  /**
+   * Check settlement status for a NEAR Intents swap (swapId = deposit address)
+   */
+  async checkSettlementOnce(swapId: string, verbose = true): Promise<SettlementResult | null> {
+    const storedSwap = pendingSwaps.get(swapId)
+
+    if (!storedSwap) {
+      // Already settled or not tracked - skip silently
+      return null
+    }
+
+    if (verbose) {
+      console.log(`   🌐 Checking NEAR Intents swap: ${swapId.slice(0, 16)}...`)
+    }
+
+    try {
+      const status = await OneClickService.getExecutionStatus(swapId)
+      storedSwap.status = status.status.toLowerCase()
+      pendingSwaps.set(swapId, storedSwap)  // persist progress
+      recordStage(swapId, 'NearIntents', NEAR_INTENTS_STAGES[status.status] || 'processing', status.status)
+
+      if (status.status === GetExecutionStatusResponse.status.SUCCESS) {
+        const details = status.swapDetails
+        const payoutTxHash = details.destinationChainTxHashes[0]?.hash || null
+        const actualAmount = details.amountOut ? tokenAmount(storedSwap.outputToken, details.amountOut) : null
+
+        console.log(`   ✅ NEAR Intents swap completed!`)
+        if (payoutTxHash) {
+          const explorer = storedSwap.outputToken === 'BTC'
+            ? `https://mempool.space/tx/${payoutTxHash}`
+            : `https://etherscan.io/tx/${payoutTxHash}`
+          console.log(`   🔗 Payout Tx: ${payoutTxHash}`)
+          console.log(`      ${explorer}`)
+        }
+        if (actualAmount) {
+          console.log(`   💰 Actual Output: ${formatTokenAmount(actualAmount)} ${colorToken(actualAmount.token)}`)
+        }
+
+        // Remove from pending swaps
+        pendingSwaps.delete(swapId)
+
+        return {
+          swapId,
+          status: 'completed',
+          payoutTxHash,
+          actualOutputAmount: actualAmount,
+          settledAt: Date.now(),
+        }
+      }
+
+      if (status.status === GetExecutionStatusResponse.status.REFUNDED || status.status === GetExecutionStatusResponse.status.FAILED) {
+        const reason = status.swapDetails?.refundReason
+        console.log(`   ❌ NEAR Intents swap ${storedSwap.status}${reason ? `: ${reason}` : ''}`)
+        pendingSwaps.delete(swapId)
+        return {
+          swapId,
+          status: status.status === GetExecutionStatusResponse.status.REFUNDED ? 'refunded' : 'failed',
+          payoutTxHash: null,
+          actualOutputAmount: null,
+          settledAt: Date.now(),
+        }
+      }
+
+      // Still in progress
+      if (verbose) {
+        console.log(`   ⏳ Status: ${status.status}`)
+      }
+      return null
+
+    } catch (error: any) {
+      // 404 means 1Click hasn't seen the deposit yet
+      if (error?.status === 404) {
+        console.log(`   ⏳ Deposit not yet seen by 1Click`)
+        return null
+      }
+      console.log(`   ❌ Error checking status: ${error?.message || error}`)
+      return null
+    }
+  },
+
+  /**
+   * Get status string for display
+   */
+  async getStatusString(swapId: string): Promise<string> {
+    const swap = pendingSwaps.get(swapId)
+    if (!swap) return 'unknown'
+    return swap.status
+  },
+}
+
+// Send EVM deposit (native ETH or ERC20 transfer) to the 1Click deposit address
+async function depositEvm(depositAddress: string, inputToken: string, amount: bigint): Promise<string> {
+  if (!mainnetWalletClient) {
+    throw new Error('NearIntents: Wallet client not available')
+  }
+
+  const to = depositAddress as `0x${string}`
+  const contract = NEAR_INTENTS_ASSETS[inputToken].contract
+
+  console.log(`   📤 Sending ${inputToken} to deposit address...`)
+
+  const hash = contract
+    ? await mainnetWalletClient.writeContract({
+        address: contract,
+        abi: ERC20_ABI,
+        functionName: 'transfer',
+        args: [to, amount],
+      })
+    : await mainnetWalletClient.sendTransaction({ to, value: amount })
+
+  console.log(`   ⏳ Waiting for confirmation...`)
+  await mainnetPublicClient.waitForTransactionReceipt({ hash })
+
+  return hash
+}
@@ -0,0 +1,62 @@
+import { type Provider } from './types.js'
+import { rift } from './rift.js'
+import { relay } from './relay.js'
+import { thorchain } from './thorchain.js'
+import { chainflip, chainflipDca, chainflipBoost } from './chainflip.js'
+import { nearIntents } from './near-intents.js'
+import { maya } from './maya.js'
+
+/**
+ * A registered provider.
+ * The Provider itself declares its name, supported pairs (supportsSwap) and settlement checker,
+ * the entry adds scheduling and display metadata.
+ */
+export interface ProviderEntry {
+  provider: Provider
+  enabled: boolean  // included in scheduler cycles
+  emoji: string     // console + dashboard tag
+  accent: string    // dashboard accent color (matches --accent-* CSS variables)
+}
+
+// ============================================================================
+// PROVIDER REGISTRY - register a provider once here to add it everywhere
+// ============================================================================
+const PROVIDERS: ProviderEntry[] = [
+  { provider: rift, enabled: false, emoji: '⚡', accent: 'purple' },
+  { provider: relay, enabled: true, emoji: '🔗', accent: 'pink' },
+  { provider: thorchain, enabled: true, emoji: '🌀', accent: 'green' },
+  { provider: chainflip, enabled: true, emoji: '🔄', accent: 'orange' },
+  { provider: chainflipDca, enabled: true, emoji: '🧩', accent: 'orange' },
+  { provider: chainflipBoost, enabled: true, emoji: '🚀', accent: 'orange' },
+  { provider: nearIntents, enabled: true, emoji: '🌐', accent: 'blue' },
+  { provider: maya, enabled: true, emoji: '🐉', accent: 'cyan' },
+]
+
+/**
+ * All registered providers (enabled or not)
+ */
+export function getProviders(): ProviderEntry[] {
+  return PROVIDERS
+}
+
+/**
+ * Providers included in scheduler cycles
+ */
+export function getActiveProviders(): ProviderEntry[] {
+  return PROVIDERS.filter(p => p.enabled)
+}
+
+/**
+ * Look up a registered provider by name (as stored in SwapResult.provider / CSV rows)
+ */
+export function getProviderEntry(name: string): ProviderEntry | undefined {
+  return PROVIDERS.find(p => p.provider.name === name)
+}
+
+/**
+ * Emoji-prefixed provider name for console output (e.g. "🔗Relay")
+ */
+export function providerTag(name: string): string {
+  const emoji = getProviderEntry(name)?.emoji || '📦'
+  return `${emoji}${name}`
+}
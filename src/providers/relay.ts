@@ -8,12 +8,22 @@ import {
   waitForMempoolConfirmation,
   initializeUtxoStateFromMempool,
 } from '../account.js'
+import { PersistentMap } from '../pending-store.js'
+import { type LifecycleStage, recordStage } from '../lifecycle.js'
 import {
   type Quote,
   type SwapResult,
   type SwapParams,
   type SettlementResult,
+  type ProviderQuoteResult,
+  type TokenAmount,
+  type FeeComponent,
+  type FeeType,
   toSmallestUnit,
+  tokenAmount,
+  parseTokenAmount,
+  formatTokenAmount,
+  feeComponent,
   colorToken,
   colorPair,
 } from './types.js'
@@ -46,6 +56,35 @@ const TOKENS: Record<string, { chainId: number; address: string; decimals: numbe
   },
 }
 
+// Relay fee keys -> normalised fee types
+// (`relayer` is relayerGas + relayerService, so it's skipped to avoid double counting)
+const RELAY_FEE_TYPES: Record<string, FeeType> = {
+  gas: 'network',
+  relayerGas: 'outbound',
+  relayerService: 'protocol',
+  app: 'affiliate',
+}
+
+interface RelayFee {
+  currency?: { symbol?: string }
+  amount?: string
+  amountUsd?: string
+}
+
+// Extract normalised fee breakdown from a Relay quote response
+function extractFees(quoteResponse: unknown): FeeComponent[] {
+  const fees = (quoteResponse as { fees?: Record<string, RelayFee> }).fees || {}
+  const components: FeeComponent[] = []
+  for (const [key, type] of Object.entries(RELAY_FEE_TYPES)) {
+    const fee = fees[key]
+    if (!fee?.amount || fee.amount === '0' || !fee.currency?.symbol) continue
+    const usd = fee.amountUsd ? parseFloat(fee.amountUsd) : null
+    const component = feeComponent(type, fee.currency.symbol.toUpperCase(), fee.amount, usd)
+    if (component) components.push(component)
+  }
+  return components
+}
+
 // Initialize Relay client (singleton)
 let clientInitialized = false
 function ensureClient() {
@@ -59,25 +98,37 @@ function ensureClient() {
   return getClient()
 }
 
-// Store for tracking in-progress swaps
-const pendingSwaps = new Map<string, {
+// Relay intent status (v3 status API) -> lifecycle stage
+const RELAY_STAGES: Record<string, LifecycleStage> = {
+  waiting: 'deposit_broadcast',   // deposit not yet seen/confirmed
+  pending: 'processing',          // deposit confirmed, fill in progress
+  delayed: 'processing',
+  submitted: 'payout_broadcast',  // fill tx sent on destination chain
+  success: 'payout_confirmed',
+  refund: 'refunded',
+  failure: 'failed',
+}
+
+// Store for tracking in-progress swaps (persisted so relayRequestId survives restarts)
+const pendingSwaps = new PersistentMap<{
   status: string
   txHashes: string[]
   details?: unknown
   btcPayoutTxHash?: string | null
   ethDepositTxHash?: string | null
   relayRequestId?: string | null  // The actual Relay API request ID
-}>()
-
-export interface RelayQuoteResult {
-  quote: Quote
-  execute: () => Promise<SwapResult>
-}
+  outputToken: string
+}>('Relay')
 
 export const relay = {
   name: 'Relay',
 
-  async getQuote(params: SwapParams): Promise<RelayQuoteResult> {
+  // Check if this provider supports the given swap pair
+  supportsSwap(inputToken: string, outputToken: string): boolean {
+    return inputToken in TOKENS && outputToken in TOKENS
+  },
+
+  async getQuote(params: SwapParams): Promise<ProviderQuoteResult> {
     const { inputToken, outputToken, inputAmount } = params
 
     const fromToken = TOKENS[inputToken]
@@ -131,7 +182,8 @@ export const relay = {
       steps?: Array<{ requestId?: string }>
     }
 
-    const outputAmount = quoteData.details?.currencyOut?.amount || '0'
+    // Relay returns currencyOut.amount in base units
+    const outputAmount = tokenAmount(outputToken, quoteData.details?.currencyOut?.amount || '0')
     
     // Extract the Relay requestId from the steps
     const relayRequestId = quoteData.steps?.[0]?.requestId || null
@@ -143,8 +195,9 @@ export const relay = {
       provider: 'Relay',
       inputToken,
       outputToken,
-      inputAmount,
+      inputAmount: parseTokenAmount(inputAmount, inputToken),
       outputAmount,
+      fees: extractFees(quoteResponse),
       raw: quoteResponse,
     }
 
@@ -171,6 +224,7 @@ export const relay = {
       let lastStepId = ''
       let btcPayoutTxHash: string | null = null
       let ethDepositTxHash: string | null = null
+      const ourEvmTxHashes = new Set<string>()  // approvals + deposit, for network cost accounting
 
       try {
         await client.actions.execute({
@@ -189,8 +243,9 @@ export const relay = {
               for (const tx of txHashes as Array<{ txHash: string; chainId?: number }>) {
                 if (tx.chainId === 8253038) {
                   btcPayoutTxHash = tx.txHash
-                } else if (tx.chainId === 1 && !ethDepositTxHash) {
-                  ethDepositTxHash = tx.txHash
+                } else if (tx.chainId === 1) {
+                  ourEvmTxHashes.add(tx.txHash)
+                  if (!ethDepositTxHash) ethDepositTxHash = tx.txHash
                 }
               }
             }
@@ -311,6 +366,7 @@ export const relay = {
         btcPayoutTxHash,
         ethDepositTxHash,
         relayRequestId,
+        outputToken,
       })
 
       console.log(`✅ Relay swap deposited`)
@@ -326,10 +382,11 @@ export const relay = {
         txHash: finalTxHashes[0] || null,
         inputToken,
         outputToken,
-        inputAmount,
+        inputAmount: quoteResult.inputAmount,
         outputAmount,
         timestamp: Date.now(),
         relayRequestId,
+        networkTxs: [...ourEvmTxHashes],
       }
     }
 
@@ -417,6 +474,7 @@ export const relay = {
             btcPayoutTxHash: btcTxHash,
             ethDepositTxHash: null,
             relayRequestId,
+            outputToken,
           })
           
           return {
@@ -426,10 +484,11 @@ export const relay = {
             txHash: btcTxHash,
             inputToken,
             outputToken,
-            inputAmount,
+            inputAmount: quoteResult.inputAmount,
             outputAmount,
             timestamp: Date.now(),
             relayRequestId,
+            networkTxs: [btcTxHash],
           }
           
         } catch (err) {
@@ -506,7 +565,7 @@ export const relay = {
       // Get the Relay Request ID - this is what we need for the API
       const relayRequestId = storedSwap?.relayRequestId
       
-      if (!relayRequestId) {
+      if (!storedSwap || !relayRequestId) {
         console.log(`   ⚠️ No Relay Request ID stored for swap ${swapId.slice(0, 16)}...`)
         return null
       }
@@ -525,6 +584,9 @@ export const relay = {
       
       const data = await response.json() as any
       console.log(`   📡 v3 Status: ${data.status}${data.details ? ` (${data.details})` : ''}`)
+      if (RELAY_STAGES[data.status]) {
+        recordStage(swapId, 'Relay', RELAY_STAGES[data.status], data.status)
+      }
       
       // v3 API returns { status: "success" | "pending" | "unknown", ... }
       if (!data.status || data.status === 'unknown') {
@@ -548,7 +610,7 @@ export const relay = {
         }
         
         // v3 doesn't have actual output amount - fetch from v2 API for details
-        let actualOutput: string | null = null
+        let actualOutput: TokenAmount | null = null
         try {
           const v2Url = `https://api.relay.link/requests/v2?id=${relayRequestId}`
           const v2Response = await fetch(v2Url)
@@ -556,7 +618,7 @@ export const relay = {
             const v2Data = await v2Response.json() as any
             const request = v2Data.requests?.[0]
             if (request?.data?.metadata?.currencyOut?.amount) {
-              actualOutput = request.data.metadata.currencyOut.amount
+              actualOutput = tokenAmount(storedSwap.outputToken, request.data.metadata.currencyOut.amount)
             }
           }
         } catch {
@@ -572,11 +634,11 @@ export const relay = {
           console.log(`      ${explorer}`)
         }
         if (actualOutput) {
-          console.log(`   💰 Actual Output: ${actualOutput}`)
+          console.log(`   💰 Actual Output: ${formatTokenAmount(actualOutput)} ${colorToken(actualOutput.token)}`)
         }
         
-        // Note: Don't delete from pendingSwaps here - settlement-tracker manages lifecycle
-        // The entry will be orphaned but that's fine, it prevents race conditions
+        // Remove from pending swaps so we don't check again
+        pendingSwaps.delete(swapId)
         
         return {
           swapId,
@@ -587,6 +649,19 @@ export const relay = {
         }
       }
       
+      // Terminal without a payout
+      if (data.status === 'refund' || data.status === 'failure') {
+        console.log(`   ❌ Relay swap ${data.status === 'refund' ? 'refunded' : 'failed'}`)
+        pendingSwaps.delete(swapId)
+        return {
+          swapId,
+          status: data.status === 'refund' ? 'refunded' : 'failed',
+          payoutTxHash: null,
+          actualOutputAmount: null,
+          settledAt: Date.now(),
+        }
+      }
+      
       // Still pending
       console.log(`   ⏳ Status: ${data.status}`)
       return null
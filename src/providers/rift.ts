@@ -6,7 +6,23 @@ import {
   sendBitcoin,
   BTC_ADDRESS,
 } from '../account.js'
-import { type Quote, type SwapResult, type SwapParams, type SettlementResult, toSmallestUnit, colorToken, colorPair } from './types.js'
+import { PersistentMap } from '../pending-store.js'
+import { type LifecycleStage, recordStage } from '../lifecycle.js'
+import {
+  type Quote,
+  type SwapResult,
+  type SwapParams,
+  type SettlementResult,
+  type ProviderQuoteResult,
+  type FeeComponent,
+  type FeeType,
+  toSmallestUnit,
+  feeComponent,
+  tokenAmount,
+  parseTokenAmount,
+  colorToken,
+  colorPair,
+} from './types.js'
 
 // Currency definitions for Rift (mainnet only)
 const USDC_MAINNET: Currency = {
@@ -39,6 +55,41 @@ const CURRENCIES: Record<string, Currency> = {
   ETH: ETH_MAINNET,
 }
 
+// Map a Rift Currency back to our token symbol
+function currencyToToken(currency: Currency): string | null {
+  const match = Object.entries(CURRENCIES).find(([_, c]) =>
+    c.chain.kind === currency.chain.kind &&
+    c.token.kind === currency.token.kind &&
+    (c.token.kind !== 'TOKEN' || (c.token as { address: string }).address.toLowerCase() === (currency.token as { address?: string }).address?.toLowerCase())
+  )
+  return match ? match[0] : null
+}
+
+// Rift quote fee keys -> normalised fee types
+const RIFT_FEE_TYPES: Record<string, FeeType> = {
+  networkFee: 'network',
+  protocolFee: 'protocol',
+  liquidityFee: 'liquidity',
+  mmFee: 'liquidity',
+  affiliateFee: 'affiliate',
+  outboundFee: 'outbound',
+}
+
+// Extract normalised fee breakdown from a Rift quote
+// Fees without an explicit currency are denominated in the input currency
+function extractFees(quote: unknown, inputToken: string): FeeComponent[] {
+  const fees = (quote as { fees?: Record<string, { amount?: string; currency?: Currency } | undefined> }).fees
+  const components: FeeComponent[] = []
+  for (const [key, type] of Object.entries(RIFT_FEE_TYPES)) {
+    const fee = fees?.[key]
+    if (!fee?.amount || fee.amount === '0') continue
+    const token = fee.currency ? currencyToToken(fee.currency) : inputToken
+    const component = token ? feeComponent(type, token, fee.amount) : null
+    if (component) components.push(component)
+  }
+  return components
+}
+
 function getSdk(): RiftSdk | null {
   if (!mainnetWalletClient) return null
 
@@ -51,15 +102,29 @@ function getSdk(): RiftSdk | null {
   })
 }
 
-export interface RiftQuoteResult {
-  quote: Quote
-  execute: () => Promise<SwapResult>
+// Map Rift status fields onto the lifecycle (furthest stage the swap has reached)
+function riftStage(currentStatus: string, riftData: Record<string, any> | undefined): LifecycleStage {
+  if (currentStatus === 'failed') return 'failed'
+  if (currentStatus === 'refunded') return 'refunded'
+  if (riftData?.settlement_status?.tx_hash) return 'payout_confirmed'
+  if (riftData?.mm_deposit_status?.tx_hash) return 'payout_broadcast'
+  if (riftData?.user_deposit_status?.status === 'confirmed') return 'deposit_confirmed'
+  return 'deposit_broadcast'
 }
 
+// Output token per executed swap (status API amounts are base units of the output token)
+// Persisted so swaps executed before a restart still settle with a typed amount
+const swapOutputTokens = new PersistentMap<string>('Rift')
+
 export const rift = {
   name: 'Rift',
 
-  async getQuote(params: SwapParams): Promise<RiftQuoteResult> {
+  // Check if this provider supports the given swap pair
+  supportsSwap(inputToken: string, outputToken: string): boolean {
+    return inputToken in CURRENCIES && outputToken in CURRENCIES
+  },
+
+  async getQuote(params: SwapParams): Promise<ProviderQuoteResult> {
     const { inputToken, outputToken, inputAmount } = params
     const fromCurrency = CURRENCIES[inputToken]
     const toCurrency = CURRENCIES[outputToken]
@@ -93,8 +158,9 @@ export const rift = {
       provider: 'Rift',
       inputToken,
       outputToken,
-      inputAmount,
-      outputAmount: quote.to.amount,
+      inputAmount: parseTokenAmount(inputAmount, inputToken),
+      outputAmount: tokenAmount(outputToken, quote.to.amount),
+      fees: extractFees(quote, inputToken),
       raw: quote,
     }
     // console.log(quoteResult)
@@ -155,6 +221,8 @@ export const rift = {
         // console.log(`   ⚠️  No deposit transaction hash returned!`)
       }
 
+      swapOutputTokens.set(swap.swapId, outputToken)
+
       return {
         provider: 'Rift',
         success: true,
@@ -162,8 +230,9 @@ export const rift = {
         txHash: depositTxHash as string | null,
         inputToken,
         outputToken,
-        inputAmount,
-        outputAmount: quote.to.amount,
+        inputAmount: quoteResult.inputAmount,
+        outputAmount: quoteResult.outputAmount,
+        networkTxs: depositTxHash ? [depositTxHash as string] : undefined,
         timestamp: Date.now(),
       }
     }
@@ -198,6 +267,8 @@ export const rift = {
       console.log(statusLine)
     }
     
+    recordStage(swapId, 'Rift', riftStage(currentStatus, riftData as Record<string, any> | undefined), currentStatus)
+
     // Check if we have settlement/payout info
     const mmDeposit = riftData?.mm_deposit_status as { tx_hash?: string; amount?: string } | undefined
     const settlement = riftData?.settlement_status as { tx_hash?: string; amount?: string } | undefined
@@ -205,12 +276,15 @@ export const rift = {
     // For EVM -> BTC: mm_deposit_status has BTC payout tx
     // For BTC -> EVM: settlement_status might have EVM tx
     const payoutTxHash = mmDeposit?.tx_hash || settlement?.tx_hash || null
-    const actualAmount = mmDeposit?.amount || settlement?.amount || null
+    const actualUnits = mmDeposit?.amount || settlement?.amount || null
+    const outputToken = swapOutputTokens.get(swapId)
+    const actualAmount = actualUnits && outputToken ? tokenAmount(outputToken, actualUnits) : null
 
     // Check for failure
     if (riftData?.status === 'failed' || currentStatus === 'failed') {
       console.log(`\n❌ Swap ${swapId} failed. Full status:`)
       console.log(JSON.stringify(status, null, 2))
+      swapOutputTokens.delete(swapId)
       return {
         swapId,
         status: 'failed',
@@ -222,6 +296,7 @@ export const rift = {
 
     // Check if settled
     if (payoutTxHash) {
+      swapOutputTokens.delete(swapId)
       return {
         swapId,
         status: currentStatus,
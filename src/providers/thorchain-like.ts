@@ -0,0 +1,531 @@
+import {
+  mainnetWalletClient,
+  mainnetPublicClient,
+  EVM_ADDRESS,
+  BTC_ADDRESS,
+  sendBitcoinWithMemo,
+  waitForMempoolConfirmation,
+} from '../account.js'
+import { PersistentMap } from '../pending-store.js'
+import { recordStage } from '../lifecycle.js'
+import {
+  type Quote,
+  type SwapResult,
+  type SwapParams,
+  type StreamingParams,
+  type SettlementResult,
+  type ProviderQuoteResult,
+  type TokenAmount,
+  type FeeComponent,
+  toSmallestUnit,
+  tokenAmount,
+  parseTokenAmount,
+  formatTokenAmount,
+  rescaleUnits,
+  feeComponent,
+  colorToken,
+  colorPair,
+} from './types.js'
+
+// Shared implementation for THORChain-style protocols (THORChain, Maya):
+// node /quote/swap endpoint, memo deposits (BTC OP_RETURN or EVM router depositWithExpiry)
+// and Midgard /v2/actions settlement lookups
+
+/**
+ * Protocol asset notation for one of our tokens
+ */
+export interface ThorchainLikeAsset {
+  asset: string                // e.g. 'BTC.BTC', 'ETH.USDC-0XA0B8...'
+  decimals: number             // token's native decimals
+  contract?: `0x${string}`     // ERC20 contract (EVM tokens deposited via approve + router)
+}
+
+/**
+ * Per-protocol configuration
+ */
+export interface ThorchainLikeConfig {
+  name: string              // provider name (SwapResult.provider / CSV rows)
+  label: string             // display name in logs (e.g. 'THORChain')
+  emoji: string             // console log prefix
+  quoteUrl: string          // node quote endpoint
+  midgardApi: string        // Midgard base URL
+  protocolDecimals: number  // fixed decimals the protocol uses for all asset amounts
+  toleranceBps: number      // slippage tolerance passed to the quote endpoint
+  assets: Record<string, ThorchainLikeAsset>
+}
+
+// ERC20 ABI for approve
+const ERC20_ABI = [
+  {
+    name: 'approve',
+    type: 'function',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
+] as const
+
+// Router ABI for depositWithExpiry (same on THORChain and Maya)
+const ROUTER_ABI = [
+  {
+    name: 'depositWithExpiry',
+    type: 'function',
+    inputs: [
+      { name: 'vault', type: 'address' },
+      { name: 'asset', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'memo', type: 'string' },
+      { name: 'expiration', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'payable',
+  },
+] as const
+
+// Quote response type
+interface ThorchainLikeQuoteResponse {
+  inbound_address: string
+  router?: string
+  expiry: number
+  memo: string
+  expected_amount_out: string
+  fees: {
+    asset: string       // asset the fees are denominated in (usually the output asset)
+    affiliate?: string
+    outbound?: string
+    liquidity?: string
+    total: string
+    slippage_bps: number
+    total_bps: number
+  }
+  dust_threshold?: string
+  recommended_min_amount_in?: string
+  recommended_gas_rate?: string
+  // Streaming quotes only
+  max_streaming_quantity?: number
+  streaming_swap_blocks?: number
+  streaming_swap_seconds?: number
+  total_swap_seconds?: number
+  warning?: string
+  notes?: string
+  error?: string
+}
+
+export function createThorchainLikeProvider(config: ThorchainLikeConfig) {
+  const { name, label, emoji, assets, protocolDecimals } = config
+
+  // Store for tracking in-progress swaps (persisted under the provider name)
+  const pendingSwaps = new PersistentMap<{
+    inboundTxHash: string
+    fromAsset: string
+    toAsset: string
+    expectedAmount: TokenAmount
+    routeDetails?: string
+    status: string
+  }>(name)
+
+  // Find our token symbol + decimals for a protocol asset string
+  function findAsset(asset: string): [string, ThorchainLikeAsset] | undefined {
+    return Object.entries(assets).find(([_, v]) => v.asset === asset)
+  }
+
+  // Fetch a quote from the node's /quote/swap endpoint (amount in protocolDecimals)
+  async function fetchQuote(
+    fromAsset: string,
+    toAsset: string,
+    protocolAmount: string,
+    destination: string,
+    streaming?: StreamingParams
+  ): Promise<ThorchainLikeQuoteResponse> {
+    const quoteUrl = new URL(config.quoteUrl)
+    quoteUrl.searchParams.set('from_asset', fromAsset)
+    quoteUrl.searchParams.set('to_asset', toAsset)
+    quoteUrl.searchParams.set('amount', protocolAmount)
+    quoteUrl.searchParams.set('destination', destination)
+    quoteUrl.searchParams.set('tolerance_bps', String(config.toleranceBps))
+    if (streaming) {
+      quoteUrl.searchParams.set('streaming_interval', String(streaming.interval))
+      quoteUrl.searchParams.set('streaming_quantity', String(streaming.quantity))
+    }
+
+    const response = await fetch(quoteUrl.toString())
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`${name} quote failed: ${response.status} - ${errorText}`)
+    }
+
+    const quoteData = await response.json() as ThorchainLikeQuoteResponse
+
+    if (quoteData.error) {
+      throw new Error(`${name}: ${quoteData.error}`)
+    }
+    return quoteData
+  }
+
+  // Extract normalised fee breakdown from a quote (all fee amounts use protocolDecimals)
+  function extractFees(quoteData: ThorchainLikeQuoteResponse): FeeComponent[] {
+    const entry = findAsset(quoteData.fees?.asset)
+    if (!entry) return []
+    const [token, { decimals }] = entry
+
+    const components: FeeComponent[] = []
+    for (const type of ['liquidity', 'outbound', 'affiliate'] as const) {
+      const amount = quoteData.fees[type]
+      if (!amount || amount === '0') continue
+      const component = feeComponent(type, token, rescaleUnits(BigInt(amount), protocolDecimals, decimals))
+      if (component) components.push(component)
+    }
+    return components
+  }
+
+  // Txs sent to execute a swap: the inbound deposit plus any approval (for network cost accounting)
+  interface SentTxs {
+    txHash: string
+    networkTxs: string[]
+  }
+
+  // Execute BTC -> EVM swap
+  async function executeBtcSwap(quoteData: ThorchainLikeQuoteResponse, inputAmount: string): Promise<SentTxs> {
+    const amountSats = BigInt(toSmallestUnit(inputAmount, 'BTC'))
+
+    // Send BTC with memo to the inbound address
+    const txHash = await sendBitcoinWithMemo(
+      quoteData.inbound_address,
+      amountSats,
+      quoteData.memo
+    )
+
+    // Wait for mempool confirmation
+    await waitForMempoolConfirmation(txHash)
+
+    return { txHash, networkTxs: [txHash] }
+  }
+
+  // Execute EVM -> BTC swap via the router
+  async function executeEvmSwap(quoteData: ThorchainLikeQuoteResponse, inputToken: string, inputAmount: string): Promise<SentTxs> {
+    if (!mainnetWalletClient) {
+      throw new Error(`${name}: Wallet client not available`)
+    }
+
+    const router = quoteData.router
+    if (!router) {
+      throw new Error(`${name}: No router address in quote`)
+    }
+
+    const { contract } = assets[inputToken]
+    const inboundAddress = quoteData.inbound_address as `0x${string}`
+    const routerAddress = router as `0x${string}`
+    const expiry = BigInt(quoteData.expiry)
+    const amountUnits = BigInt(toSmallestUnit(inputAmount, inputToken))
+    const networkTxs: string[] = []
+
+    if (contract) {
+      // ERC20 deposit - need to approve first
+      console.log(`   📤 Approving ${inputToken} spend...`)
+
+      const approveHash = await mainnetWalletClient.writeContract({
+        address: contract,
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [routerAddress, amountUnits],
+      })
+      await mainnetPublicClient.waitForTransactionReceipt({ hash: approveHash })
+      networkTxs.push(approveHash)
+      console.log(`   ✓ Approved`)
+    }
+
+    console.log(`   📤 Depositing ${inputAmount} ${inputToken} to ${label} router...`)
+
+    const hash = await mainnetWalletClient.writeContract({
+      address: routerAddress,
+      abi: ROUTER_ABI,
+      functionName: 'depositWithExpiry',
+      args: [
+        inboundAddress,
+        contract || '0x0000000000000000000000000000000000000000', // native ETH = zero address
+        amountUnits,
+        quoteData.memo,
+        expiry,
+      ],
+      value: contract ? 0n : amountUnits,
+    })
+
+    // Wait for confirmation
+    console.log(`   ⏳ Waiting for confirmation...`)
+    await mainnetPublicClient.waitForTransactionReceipt({ hash })
+    networkTxs.push(hash)
+
+    return { txHash: hash, networkTxs }
+  }
+
+  return {
+    name,
+
+    // Check if this provider supports the given swap pair
+    supportsSwap(inputToken: string, outputToken: string): boolean {
+      return inputToken in assets && outputToken in assets
+    },
+
+    async getQuote(params: SwapParams): Promise<ProviderQuoteResult> {
+      const { inputToken, outputToken, inputAmount } = params
+
+      const fromAsset = assets[inputToken]
+      const toAsset = assets[outputToken]
+      const supported = Object.keys(assets).join(', ')
+
+      if (!fromAsset) {
+        throw new Error(`${name}: ${inputToken} not supported (only ${supported})`)
+      }
+      if (!toAsset) {
+        throw new Error(`${name}: ${outputToken} not supported (only ${supported})`)
+      }
+
+      // Determine destination address based on output token
+      const destination = outputToken === 'BTC' ? BTC_ADDRESS : EVM_ADDRESS
+
+      // Convert amount to the protocol's fixed-decimal format
+      const inputTokenAmount = parseTokenAmount(inputAmount, inputToken)
+      const protocolAmount = rescaleUnits(inputTokenAmount.units, fromAsset.decimals, protocolDecimals).toString()
+
+      const { streaming } = params
+
+      console.log(`   ${emoji} Fetching ${label} ${streaming ? 'streaming ' : ''}quote...`)
+
+      const quoteData = await fetchQuote(fromAsset.asset, toAsset.asset, protocolAmount, destination, streaming)
+
+      // Amounts come back in protocolDecimals - convert to the token's native base units
+      const toNative = (amount: string) => rescaleUnits(BigInt(amount), protocolDecimals, toAsset.decimals)
+      const outputAmount = tokenAmount(outputToken, toNative(quoteData.expected_amount_out))
+
+      // Streaming: compare against a single-shot quote to record the expected savings
+      let routeDetails: string | undefined
+      if (streaming) {
+        let savings = '?'
+        try {
+          const singleQuote = await fetchQuote(fromAsset.asset, toAsset.asset, protocolAmount, destination)
+          const saved = tokenAmount(outputToken, outputAmount.units - toNative(singleQuote.expected_amount_out))
+          savings = `${formatTokenAmount(saved)} ${outputToken}`
+        } catch (err: any) {
+          console.log(`   ⚠️ ${label} single-shot quote failed, streaming savings unknown: ${err?.message || err}`)
+        }
+        routeDetails = [
+          `streaming=${streaming.interval}/${streaming.quantity}`,
+          `maxQuantity=${quoteData.max_streaming_quantity ?? '?'}`,
+          `blocks=${quoteData.streaming_swap_blocks ?? '?'}`,
+          `durationSec=${quoteData.streaming_swap_seconds ?? quoteData.total_swap_seconds ?? '?'}`,
+          `savings=${savings}`,
+        ].join(';')
+      }
+
+      const quoteResult: Quote = {
+        provider: name,
+        inputToken,
+        outputToken,
+        inputAmount: inputTokenAmount,
+        outputAmount,
+        fees: extractFees(quoteData),
+        routeDetails,
+        raw: quoteData,
+      }
+
+      // Execute function
+      const execute = async (): Promise<SwapResult> => {
+        console.log(`\n${emoji} Executing ${label} swap...`)
+        console.log(`   Direction: ${colorPair(inputToken, outputToken)}`)
+        console.log(`   Amount: ${inputAmount} ${colorToken(inputToken)}`)
+        console.log(`   Destination: ${destination}`)
+        console.log(`   Memo: ${quoteData.memo}`)
+        if (routeDetails) {
+          console.log(`   Route: ${routeDetails}`)
+        }
+
+        // BTC -> EVM: Send BTC with OP_RETURN memo
+        // EVM -> BTC: Send ETH/ERC20 to the router
+        const { txHash, networkTxs } = inputToken === 'BTC'
+          ? await executeBtcSwap(quoteData, inputAmount)
+          : await executeEvmSwap(quoteData, inputToken, inputAmount)
+
+        console.log(`✅ ${label} swap initiated`)
+        console.log(`   Inbound Tx: ${txHash}`)
+        const explorer = inputToken === 'BTC'
+          ? `https://mempool.space/tx/${txHash}`
+          : `https://etherscan.io/tx/${txHash}`
+        console.log(`   ${explorer}`)
+
+        // Store for settlement tracking
+        pendingSwaps.set(txHash, {
+          inboundTxHash: txHash,
+          fromAsset: fromAsset.asset,
+          toAsset: toAsset.asset,
+          expectedAmount: outputAmount,
+          routeDetails,
+          status: 'pending',
+        })
+
+        return {
+          provider: name,
+          success: true,
+          swapId: txHash,
+          txHash,
+          inputToken,
+          outputToken,
+          inputAmount: inputTokenAmount,
+          outputAmount,
+          routeDetails,
+          networkTxs,
+          timestamp: Date.now(),
+        }
+      }
+
+      return { quote: quoteResult, execute }
+    },
+
+    /**
+     * Check settlement status using Midgard
+     * <midgardApi>/v2/actions?txid=<TXID>
+     */
+    async checkSettlementOnce(swapId: string, verbose = true): Promise<SettlementResult | null> {
+      const storedSwap = pendingSwaps.get(swapId)
+
+      if (!storedSwap) {
+        // Already settled or not tracked - skip silently
+        return null
+      }
+
+      // Format txid for Midgard: remove 0x prefix and uppercase
+      const formattedTxId = swapId.replace(/^0x/i, '').toUpperCase()
+
+      console.log(`   ${emoji} Checking ${label} tx: ${formattedTxId.slice(0, 16)}...`)
+
+      try {
+        // Query Midgard for transaction actions
+        const url = `${config.midgardApi}/v2/actions?txid=${formattedTxId}`
+        const response = await fetch(url)
+
+        if (!response.ok) {
+          console.log(`   ❌ Midgard API error: ${response.status}`)
+          return null
+        }
+
+        const data = await response.json() as any
+        const actions = data.actions || []
+
+        if (actions.length === 0) {
+          console.log(`   ⏳ No actions found yet (tx may still be confirming)`)
+          return null
+        }
+
+        const action = actions[0]
+        const status = action.status
+        const isRefund = action.type === 'refund'
+
+        // Midgard only knows about the swap once the inbound is observed; 'success' means the outbound was sent
+        if (status === 'success') {
+          recordStage(swapId, name, isRefund ? 'refunded' : 'payout_confirmed', `${action.type}:${status}`)
+        } else {
+          recordStage(swapId, name, action.out?.length ? 'payout_broadcast' : 'processing', `${action.type}:${status}`)
+        }
+
+        if (status === 'success') {
+          // Aggregate every outbound of the output asset paid to us
+          // (streaming swaps can report several; affiliate payouts go to other addresses)
+          const destination = (storedSwap.toAsset === 'BTC.BTC' ? BTC_ADDRESS : EVM_ADDRESS).toLowerCase()
+          const outbounds = ((action.out || []) as any[]).filter(out =>
+            (!out.address || out.address.toLowerCase() === destination) &&
+            out.coins?.some((c: any) => c.asset === storedSwap.toAsset)
+          )
+          const outboundTxId: string | undefined = outbounds.find(out => out.txID)?.txID
+          // Midgard tx IDs are uppercase without 0x; store EVM ones as regular hashes
+          const payoutTxHash = !outboundTxId ? null
+            : storedSwap.toAsset === 'BTC.BTC' ? outboundTxId.toLowerCase()
+            : `0x${outboundTxId.replace(/^0x/i, '').toLowerCase()}`
+          const protocolAmount = outbounds.reduce((sum, out) => sum + out.coins
+            .filter((c: any) => c.asset === storedSwap.toAsset)
+            .reduce((s: bigint, c: any) => s + BigInt(c.amount), 0n), 0n)
+
+          // Convert from protocolDecimals to the token's native base units
+          let actualAmount: TokenAmount | null = null
+          if (protocolAmount > 0n) {
+            const outputEntry = findAsset(storedSwap.toAsset)
+            if (outputEntry) {
+              const [outputTokenSymbol, { decimals }] = outputEntry
+              actualAmount = tokenAmount(outputTokenSymbol, rescaleUnits(protocolAmount, protocolDecimals, decimals))
+            }
+          }
+
+          // Streaming execution as reported by Midgard (sub-swaps executed / requested)
+          const streamingMeta = action.metadata?.swap?.streamingSwapMeta
+          const routeDetails = streamingMeta
+            ? [
+                `executed=${streamingMeta.count}/${streamingMeta.quantity}`,
+                `interval=${streamingMeta.interval}`,
+                `outbounds=${outbounds.length}`,
+                ...(storedSwap.routeDetails ? [`quoted:${storedSwap.routeDetails}`] : []),
+              ].join(';')
+            : storedSwap.routeDetails
+
+          console.log(`   ✅ ${label} swap completed!`)
+          if (payoutTxHash) {
+            const isBtcPayout = storedSwap.toAsset === 'BTC.BTC'
+            const explorer = isBtcPayout
+              ? `https://mempool.space/tx/${payoutTxHash}`
+              : `https://etherscan.io/tx/${payoutTxHash}`
+            console.log(`   🔗 Payout Tx: ${payoutTxHash}`)
+            console.log(`      ${explorer}`)
+          }
+          if (actualAmount) {
+            console.log(`   💰 Actual Output: ${formatTokenAmount(actualAmount)} ${actualAmount.token}${outbounds.length > 1 ? ` (${outbounds.length} outbounds)` : ''}`)
+          }
+          if (routeDetails) {
+            console.log(`   🧩 Route: ${routeDetails}`)
+          }
+
+          // Remove from pending swaps so we don't check again
+          pendingSwaps.delete(swapId)
+
+          return {
+            swapId,
+            status: isRefund ? 'refunded' : 'completed',
+            payoutTxHash,
+            payoutCount: outbounds.length,
+            actualOutputAmount: actualAmount,
+            settledAt: Date.now(),
+            routeDetails,
+          }
+        }
+
+        if (status === 'pending') {
+          const streamingMeta = action.metadata?.swap?.streamingSwapMeta
+          if (streamingMeta) {
+            storedSwap.status = `streaming ${streamingMeta.count}/${streamingMeta.quantity}`
+            pendingSwaps.set(swapId, storedSwap)  // persist progress
+            console.log(`   ⏳ Status: ${storedSwap.status} sub-swaps executed`)
+          } else {
+            console.log(`   ⏳ Status: pending (waiting for outbound)`)
+          }
+          return null
+        }
+
+        // Handle refund or other statuses
+        console.log(`   ⏳ Status: ${status}`)
+        return null
+
+      } catch (error) {
+        console.log(`   ❌ Error checking status:`, error)
+        return null
+      }
+    },
+
+    /**
+     * Get status string for display
+     */
+    async getStatusString(swapId: string): Promise<string> {
+      const swap = pendingSwaps.get(swapId)
+      if (!swap) return 'unknown'
+      return swap.status
+    },
+  }
+}
@@ -1,11 +1,38 @@
 // Common types for all providers
 
+/**
+ * Canonical token amount: integer base units (sats, wei, USDC 1e-6) plus the token symbol.
+ * Provider adapters normalise to this at their boundary so fee comparisons never mix units.
+ */
+export interface TokenAmount {
+  token: string
+  units: bigint
+}
+
+// Normalised fee categories across providers
+export type FeeType = 'network' | 'protocol' | 'liquidity' | 'affiliate' | 'outbound'
+
+export const FEE_TYPES: FeeType[] = ['network', 'protocol', 'liquidity', 'affiliate', 'outbound']
+
+/**
+ * A single fee charged by a provider, as reported in its quote response
+ */
+export interface FeeComponent {
+  type: FeeType
+  amount: TokenAmount
+  usd: number | null  // provider-reported USD value, or priced at log time if null
+}
+
 export interface Quote {
   provider: string
   inputToken: string
   outputToken: string
-  inputAmount: string
-  outputAmount: string
+  inputAmount: TokenAmount
+  outputAmount: TokenAmount
+  fees: FeeComponent[]  // normalised breakdown extracted from the raw response
+  routeDetails?: string  // provider-specific execution parameters (e.g. DCA chunks, boost fee), "key=value;..."
+  quoteId?: string  // unique per quote, assigned by the scheduler
+  cycleId?: string  // scheduler cycle the quote was taken in
   raw?: unknown
 }
 
@@ -16,12 +43,18 @@ export interface SwapResult {
   txHash: string | null
   inputToken: string
   outputToken: string
-  inputAmount: string
-  outputAmount: string  // expected
+  inputAmount: TokenAmount
+  outputAmount: TokenAmount  // expected
   timestamp: number
   error?: string  // Optional error message for failed/skipped swaps
   relayRequestId?: string | null  // Relay-specific: request ID for tracking
+  quoteId?: string  // quote this swap executed
+  cycleId?: string  // scheduler cycle the swap ran in
+  routeDetails?: string  // execution parameters as quoted
   inputUsd?: number  // USD value of input at swap time (for fee calculation)
+  networkTxs?: string[]  // txs we sent and paid for (deposit, approvals)
+  networkCosts?: TokenAmount[]  // miner fees / gas paid by networkTxs (sats or wei)
+  networkCostUsd?: number  // networkCosts priced at swap time
   // Prices at swap time (for consistent fee calculation regardless of market drift)
   swapPrices?: {
     btc: number
@@ -35,15 +68,50 @@ export interface SettlementResult {
   swapId: string
   status: string
   payoutTxHash: string | null
-  actualOutputAmount: string | null
+  payoutCount?: number  // outbound txs summed into actualOutputAmount (only payoutTxHash is kept)
+  actualOutputAmount: TokenAmount | null
   settledAt: number | null
   chainflipSwapId?: string | null  // Numeric swap ID for Chainflip explorer
+  routeDetails?: string  // execution parameters as actually applied
+  // On-chain check of payoutTxHash (filled in by the settlement watcher, see verify.ts)
+  verifiedOutputAmount?: TokenAmount | null
+  outputMismatch?: bigint | null  // provider-reported minus on-chain, in base units
+  verificationNote?: string
+}
+
+/**
+ * Streaming swap mode (THORChain-style protocols): the input is split into sub-swaps
+ * executed every `interval` blocks. quantity 0 lets the protocol pick the optimal count.
+ */
+export interface StreamingParams {
+  interval: number
+  quantity: number
 }
 
 export interface SwapParams {
   inputToken: string
   outputToken: string
-  inputAmount: string
+  inputAmount: string  // human-readable (e.g. '0.0002')
+  streaming?: StreamingParams  // ignored by providers without streaming support
+}
+
+export interface ProviderQuoteResult {
+  quote: Quote
+  execute: () => Promise<SwapResult>
+}
+
+/**
+ * Common interface every provider adapter implements.
+ * Registered once in registry.ts - the scheduler, settlement watcher and dashboard all iterate over it.
+ */
+export interface Provider {
+  name: string
+  // Capability check - unsupported pairs are skipped by the scheduler
+  supportsSwap(inputToken: string, outputToken: string): boolean
+  getQuote(params: SwapParams): Promise<ProviderQuoteResult>
+  // Settlement checker - returns SettlementResult if settled/failed, null if still pending
+  checkSettlementOnce(swapId: string, verbose?: boolean): Promise<SettlementResult | null>
+  getStatusString(swapId: string): Promise<string>
 }
 
 // Token decimals
@@ -69,6 +137,54 @@ export function fromSmallestUnit(amount: string, token: string): string {
   return frac ? `${whole}.${frac}` : whole
 }
 
+/**
+ * Build a TokenAmount from base units (sats/wei/etc.)
+ */
+export function tokenAmount(token: string, units: bigint | string | number): TokenAmount {
+  return { token, units: BigInt(units) }
+}
+
+/**
+ * Parse a human-readable amount (e.g. '0.0002') into a TokenAmount
+ */
+export function parseTokenAmount(amount: string, token: string): TokenAmount {
+  return { token, units: BigInt(toSmallestUnit(amount, token)) }
+}
+
+/**
+ * Format a TokenAmount as a human-readable decimal string (exact, no float rounding)
+ */
+export function formatTokenAmount(amount: TokenAmount): string {
+  const sign = amount.units < 0n ? '-' : ''
+  const abs = amount.units < 0n ? -amount.units : amount.units
+  return sign + fromSmallestUnit(abs.toString(), amount.token)
+}
+
+/**
+ * Build a FeeComponent from base units, skipping tokens we can't price (returns null)
+ */
+export function feeComponent(type: FeeType, token: string, units: bigint | string | number, usd: number | null = null): FeeComponent | null {
+  if (!(token in DECIMALS)) return null
+  return { type, amount: tokenAmount(token, units), usd }
+}
+
+/**
+ * TokenAmount as a float in whole tokens (for USD math only)
+ */
+export function tokenAmountToNumber(amount: TokenAmount): number {
+  return parseFloat(formatTokenAmount(amount))
+}
+
+/**
+ * Rescale integer units between decimal conventions (e.g. THORChain's 1e8 -> wei)
+ * Truncates when scaling down.
+ */
+export function rescaleUnits(units: bigint, fromDecimals: number, toDecimals: number): bigint {
+  if (toDecimals === fromDecimals) return units
+  const factor = 10n ** BigInt(Math.abs(toDecimals - fromDecimals))
+  return toDecimals > fromDecimals ? units * factor : units / factor
+}
+
 // Terminal color codes for tokens
 const RESET = '\x1b[0m'
 const TOKEN_COLORS: Record<string, string> = {
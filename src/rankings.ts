@@ -0,0 +1,168 @@
+import { selectRows, type Row } from './db.js'
+import { type StatsWindow, inWindow } from './analytics.js'
+import { storedAmount } from './csv.js'
+import { tokenAmountToNumber } from './providers/types.js'
+
+// Per-cycle competitiveness: every cycle quotes all providers for the same SwapParams at nearly the
+// same moment, so providers are ranked per pair and amount by quoted output and (once settled) by
+// delivered output. Regret is the bps of output lost by using a provider instead of the cycle's best.
+
+export interface RankedProvider {
+  provider: string
+  output: number      // whole tokens
+  rank: number        // 1 = best (ties share a rank)
+  regretBips: number  // (best - output) / best, 0 for the best
+}
+
+export interface CycleRanking {
+  cycleId: string
+  timestamp: string  // first quote of the round
+  pair: string       // e.g. 'BTC→USDC'
+  inputAmount: string
+  quoted: RankedProvider[]
+  delivered: RankedProvider[]  // completed settlements only
+}
+
+export interface RankSummary {
+  rounds: number     // rankings with at least two providers
+  wins: number
+  winRate: number | null
+  avgRegretBips: number | null
+}
+
+export interface ProviderCompetitiveness {
+  provider: string
+  pair: string
+  quoted: RankSummary
+  delivered: RankSummary
+}
+
+export interface DailyCompetitiveness {
+  date: string  // YYYY-MM-DD (UTC)
+  provider: string
+  quoted: RankSummary
+  delivered: RankSummary
+}
+
+// Rank providers by output, best first
+function rank(outputs: Map<string, number>): RankedProvider[] {
+  const sorted = [...outputs.entries()].sort(([, a], [, b]) => b - a)
+  const best = sorted[0]?.[1] ?? 0
+  return sorted.map(([provider, output]) => ({
+    provider,
+    output,
+    rank: sorted.findIndex(([, o]) => o === output) + 1,
+    regretBips: best > 0 ? ((best - output) / best) * 10000 : 0,
+  }))
+}
+
+// Round key within a cycle: same pair and input amount (one SwapParams entry)
+const roundKey = (row: Row) => `${row.inputToken}→${row.outputToken}|${row.inputAmount}`
+
+function rankingsFrom(quotes: Row[], settlements: Row[]): CycleRanking[] {
+  const rounds = new Map<string, { ranking: Omit<CycleRanking, 'quoted' | 'delivered'>; quoted: Map<string, number>; delivered: Map<string, number> }>()
+
+  const roundFor = (row: Row) => {
+    const id = `${row.cycleId}|${roundKey(row)}`
+    let round = rounds.get(id)
+    if (!round) {
+      round = {
+        ranking: {
+          cycleId: String(row.cycleId),
+          timestamp: String(row.timestamp),
+          pair: `${row.inputToken}→${row.outputToken}`,
+          inputAmount: String(row.inputAmount),
+        },
+        quoted: new Map(),
+        delivered: new Map(),
+      }
+      rounds.set(id, round)
+    }
+    return round
+  }
+
+  // A provider re-quoted within a round (e.g. a retry) counts with its latest quote
+  for (const quote of quotes) {
+    if (!quote.cycleId || !quote.outputAmount) continue
+    roundFor(quote).quoted.set(String(quote.provider), tokenAmountToNumber(storedAmount(quote.outputAmount, String(quote.outputToken))))
+  }
+  for (const settlement of settlements) {
+    const delivered = settlement.verifiedOutputAmount || settlement.actualOutputAmount
+    if (!settlement.cycleId || settlement.status !== 'completed' || !delivered) continue
+    roundFor(settlement).delivered.set(String(settlement.provider), tokenAmountToNumber(storedAmount(delivered, String(settlement.outputToken))))
+  }
+
+  return [...rounds.values()].map(({ ranking, quoted, delivered }) => ({
+    ...ranking,
+    quoted: rank(quoted),
+    delivered: rank(delivered),
+  }))
+}
+
+/**
+ * Rankings for every cycle round in the window, newest first (rows without a cycleId are left out)
+ */
+export function cycleRankings(window: StatsWindow = {}): CycleRanking[] {
+  const quotes = selectRows('quotes').filter(row => inWindow(row, window))
+  const cycleIds = new Set(quotes.map(q => q.cycleId))
+  // Settlements land after the cycle, so they follow their cycle's quotes rather than the window
+  const settlements = selectRows('settlements').filter(row => cycleIds.has(row.cycleId))
+  return rankingsFrom(quotes, settlements).reverse()
+}
+
+/**
+ * Quoted-output rankings for a single cycle (logged at the end of each cycle)
+ */
+export function rankCycle(cycleId: string): CycleRanking[] {
+  return rankingsFrom(selectRows('quotes').filter(q => q.cycleId === cycleId), [])
+}
+
+function summarize(entries: RankedProvider[]): RankSummary {
+  const wins = entries.filter(e => e.rank === 1).length
+  return {
+    rounds: entries.length,
+    wins,
+    winRate: entries.length ? wins / entries.length : null,
+    avgRegretBips: entries.length ? entries.reduce((sum, e) => sum + e.regretBips, 0) / entries.length : null,
+  }
+}
+
+// Each provider's entry in every round with at least two providers, grouped by a key
+function entriesBy(rankings: CycleRanking[], side: 'quoted' | 'delivered', key: (ranking: CycleRanking, provider: string) => string) {
+  const entries = new Map<string, RankedProvider[]>()
+  for (const ranking of rankings) {
+    if (ranking[side].length < 2) continue
+    for (const entry of ranking[side]) {
+      const id = key(ranking, entry.provider)
+      entries.set(id, [...(entries.get(id) || []), entry])
+    }
+  }
+  return entries
+}
+
+/**
+ * Win rate and average regret per provider × pair, plus a daily series per provider (all pairs)
+ */
+export function competitiveness(window: StatsWindow = {}): { providers: ProviderCompetitiveness[]; daily: DailyCompetitiveness[] } {
+  const rankings = cycleRankings(window)
+  const byPair = (ranking: CycleRanking, provider: string) => `${provider}|${ranking.pair}`
+  const byDay = (ranking: CycleRanking, provider: string) => `${ranking.timestamp.slice(0, 10)}|${provider}`
+
+  const combine = <T>(key: (ranking: CycleRanking, provider: string) => string, build: (id: string, quoted: RankSummary, delivered: RankSummary) => T): T[] => {
+    const quoted = entriesBy(rankings, 'quoted', key)
+    const delivered = entriesBy(rankings, 'delivered', key)
+    const ids = [...new Set([...quoted.keys(), ...delivered.keys()])].sort()
+    return ids.map(id => build(id, summarize(quoted.get(id) || []), summarize(delivered.get(id) || [])))
+  }
+
+  return {
+    providers: combine(byPair, (id, quoted, delivered) => {
+      const [provider, pair] = id.split('|')
+      return { provider, pair, quoted, delivered }
+    }),
+    daily: combine(byDay, (id, quoted, delivered) => {
+      const [date, provider] = id.split('|')
+      return { date, provider, quoted, delivered }
+    }),
+  }
+}
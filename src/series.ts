@@ -0,0 +1,135 @@
+import { selectRows, type Row } from './db.js'
+import { type Direction, type StatsWindow, direction, inWindow, mean, percentile, rowPrice, settlementDelayMs } from './analytics.js'
+import { storedAmount } from './csv.js'
+import { tokenAmountToNumber } from './providers/types.js'
+
+// Pre-bucketed time series for the dashboard charts (served as /api/series)
+
+export interface SeriesPoint {
+  t: string  // bucket start (ISO)
+  count: number
+  mean: number | null
+  p50: number | null
+  p90: number | null
+}
+
+export interface Series {
+  provider: string
+  pair?: string
+  points: SeriesPoint[]
+}
+
+export interface TimeSeries {
+  bucketMs: number
+  direction: Direction | null
+  fees: Series[]           // feeBips of completed settlements, per provider and pair
+  quoteVsOracle: Series[]  // quoted output vs the oracle mid-price at quote time (bps), per provider and pair
+  latency: Series[]        // swap -> settlement latency (ms), per provider
+}
+
+// Bucket sizes by window length: hourly up to 2 days, 6-hourly up to 2 weeks, daily beyond
+const BUCKETS: Array<[number, number]> = [
+  [2 * 86400_000, 3600_000],
+  [14 * 86400_000, 6 * 3600_000],
+  [Infinity, 86400_000],
+]
+
+const DIRECTION_PARAMS: Record<string, Direction> = {
+  'btc-evm': 'BTC→EVM',
+  'evm-btc': 'EVM→BTC',
+}
+
+/**
+ * Direction filter from the `direction` query parameter (btc-evm / evm-btc, absent or 'all' for both)
+ */
+export function parseDirection(params: URLSearchParams): Direction | null {
+  const value = params.get('direction')
+  if (!value || value === 'all') return null
+  if (!DIRECTION_PARAMS[value]) throw new Error(`Invalid direction "${value}" - use btc-evm or evm-btc`)
+  return DIRECTION_PARAMS[value]
+}
+
+// Quoted output minus the output implied by the oracle prices recorded with the quote, in bps of the latter
+function quoteVsOracleBips(quote: Row): number | null {
+  const inputPrice = rowPrice(quote, String(quote.inputToken))
+  const outputPrice = rowPrice(quote, String(quote.outputToken))
+  const inputAmount = parseFloat(String(quote.inputAmount))
+  if (inputPrice === null || outputPrice === null || !quote.outputAmount || !(inputAmount > 0)) return null
+  const mid = (inputAmount * inputPrice) / outputPrice
+  const quoted = tokenAmountToNumber(storedAmount(quote.outputAmount, String(quote.outputToken)))
+  return ((quoted - mid) / mid) * 10000
+}
+
+// Collects values per series and bucket
+class Bucketer {
+  private series = new Map<string, { provider: string; pair?: string; buckets: Map<number, number[]> }>()
+
+  constructor(private bucketMs: number) {}
+
+  add(timestamp: string, value: number, provider: string, pair?: string) {
+    const id = `${provider}|${pair ?? ''}`
+    const entry = this.series.get(id) || { provider, pair, buckets: new Map() }
+    const bucket = Math.floor(Date.parse(timestamp) / this.bucketMs) * this.bucketMs
+    entry.buckets.set(bucket, [...(entry.buckets.get(bucket) || []), value])
+    this.series.set(id, entry)
+  }
+
+  toSeries(): Series[] {
+    return [...this.series.values()]
+      .map(({ provider, pair, buckets }) => ({
+        provider,
+        ...(pair !== undefined && { pair }),
+        points: [...buckets.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([t, values]) => ({
+            t: new Date(t).toISOString(),
+            count: values.length,
+            mean: mean(values),
+            p50: percentile(values, 50),
+            p90: percentile(values, 90),
+          })),
+      }))
+      .sort((a, b) => (a.pair ?? '').localeCompare(b.pair ?? '') || a.provider.localeCompare(b.provider))
+  }
+}
+
+/**
+ * Fee, quote-vs-oracle and latency series bucketed by time, optionally for one direction
+ */
+export function timeSeries(window: StatsWindow = {}, dir: Direction | null = null): TimeSeries {
+  const matches = (row: Row) => inWindow(row, window) && (!dir || direction(String(row.inputToken)) === dir)
+  const quotes = selectRows('quotes').filter(matches)
+  const settlements = selectRows('settlements').filter(row => row.status === 'completed' && matches(row))
+  const swapsById = new Map(selectRows('swaps').filter(s => s.swapId).map(s => [String(s.swapId), s]))
+
+  // Bucket size from the window, or from the data's own span when the window is open-ended
+  const times = [...quotes, ...settlements].map(row => Date.parse(String(row.timestamp)))
+  const from = window.from?.getTime() ?? (times.length ? Math.min(...times) : Date.now())
+  const to = window.to?.getTime() ?? Date.now()
+  const bucketMs = BUCKETS.find(([maxSpan]) => to - from <= maxSpan)![1]
+
+  const fees = new Bucketer(bucketMs)
+  const quoteVsOracle = new Bucketer(bucketMs)
+  const latency = new Bucketer(bucketMs)
+
+  for (const quote of quotes) {
+    const bips = quoteVsOracleBips(quote)
+    if (bips !== null) quoteVsOracle.add(String(quote.timestamp), bips, String(quote.provider), `${quote.inputToken}→${quote.outputToken}`)
+  }
+  for (const settlement of settlements) {
+    const timestamp = String(settlement.timestamp)
+    const provider = String(settlement.provider)
+    if (typeof settlement.feeBips === 'number') fees.add(timestamp, settlement.feeBips, provider, `${settlement.inputToken}→${settlement.outputToken}`)
+    const swap = settlement.swapId ? swapsById.get(String(settlement.swapId)) : undefined
+    const delay = swap ? settlementDelayMs(swap, settlement) : null
+    if (delay !== null) latency.add(timestamp, delay, provider)
+  }
+
+  return {
+    bucketMs,
+    direction: dir,
+    fees: fees.toSeries(),
+    quoteVsOracle: quoteVsOracle.toSeries(),
+    latency: latency.toSeries(),
+  }
+}
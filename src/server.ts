@@ -1,55 +1,303 @@
-import { createServer } from 'http'
-import { readFileSync, existsSync, writeFileSync } from 'fs'
-import { join } from 'path'
-import { getBalances, BTC_ADDRESS, EVM_ADDRESS } from './account.js'
+import { type IncomingMessage, createServer } from 'http'
+import { type BalanceResult, getBalances, BTC_ADDRESS, EVM_ADDRESS } from './account.js'
 import { chainflip } from './providers/chainflip.js'
-
-const CSV_HEADER = 'timestamp,type,provider,inputToken,outputToken,inputAmount,outputAmount,swapId,txHash,status,payoutTxHash,actualOutputAmount,btcPrice,cbbtcPrice,usdcPrice,ethPrice,relayRequestId,chainflipSwapId,inputUsd,outputUsd,usdLost,feeBips'
+import { getProviders } from './providers/registry.js'
+import { getDataRows, exportCsv } from './csv.js'
+import { getAllTransitions, stageDurations } from './lifecycle.js'
+import { ERROR_TYPES } from './errors.js'
+import { computeStats, quoteAccuracy, repricedFees, compareExperiments, parseWindow } from './analytics.js'
+import { cycleRankings, competitiveness } from './rankings.js'
+import { timeSeries, parseDirection } from './series.js'
+import { type LiveEvent, publish, subscribe } from './events.js'
+import { listJourneys, getJourney, parseJourneyQuery } from './journeys.js'
+import { applyCors, authorize, audit, getAuditLog, dashboardHost, logAuthConfig } from './auth.js'
+import { activeExperiment, listExperiments, startExperiment } from './experiments.js'
+import { renderMetrics } from './metrics.js'
 
 const PORT = 3457
 
-function parseCSV(filepath: string): object[] {
-  if (!existsSync(filepath)) return []
-  const content = readFileSync(filepath, 'utf-8')
-  const lines = content.trim().split('\n')
-  if (lines.length < 2) return []
-  
-  const headers = lines[0].split(',')
-  return lines.slice(1).map(line => {
-    const values = line.split(',')
-    const obj: Record<string, string> = {}
-    headers.forEach((h, i) => obj[h] = values[i] || '')
-    return obj
+// RGB values for the dashboard's --accent-* colors (used for translucent provider badges)
+const ACCENT_RGB: Record<string, string> = {
+  cyan: '0, 229, 255',
+  purple: '168, 85, 247',
+  pink: '236, 72, 153',
+  green: '34, 197, 94',
+  orange: '245, 158, 11',
+  red: '239, 68, 68',
+  blue: '59, 130, 246',
+}
+
+// Provider display metadata for the dashboard script
+function providerMeta(): Record<string, { emoji: string; accent: string }> {
+  return Object.fromEntries(getProviders().map(p => [p.provider.name, { emoji: p.emoji, accent: p.accent }]))
+}
+
+// Badge colors for every registered provider
+function providerStyles(): string {
+  return getProviders().map(({ provider, accent }) => {
+    const cls = provider.name.toLowerCase()
+    const rgb = ACCENT_RGB[accent] || ACCENT_RGB.orange
+    return `    .provider-badge.${cls}, .journey-provider.${cls} {
+      background: rgba(${rgb}, 0.1);
+      color: var(--accent-${accent});
+    }`
+  }).join('\n')
+}
+
+// Quote/execution success rates and failure counts by error type, per provider
+function providerReliability(experiment?: string) {
+  const rows = getDataRows(experiment)
+  const providers = [...new Set(rows.map(row => row.provider))].sort()
+  return providers.map(provider => {
+    const ofProvider = rows.filter(row => row.provider === provider)
+    const failures = ofProvider.filter(row => row.type === 'failure')
+    const quoteFailures = failures.filter(row => row.failureStage === 'quote' && row.errorType !== 'unsupported_pair')
+    const executeFailures = failures.filter(row => row.failureStage === 'execute')
+    const quotes = ofProvider.filter(row => row.type === 'quote').length
+    const swaps = ofProvider.filter(row => row.type === 'swap').length
+    const settlements = ofProvider.filter(row => row.type === 'settlement')
+    const rate = (ok: number, failed: number) => ok + failed > 0 ? ok / (ok + failed) : null
+    return {
+      provider,
+      quotes,
+      quoteFailures: quoteFailures.length,
+      quoteSuccessRate: rate(quotes, quoteFailures.length),
+      swaps,
+      executeFailures: executeFailures.length,
+      executeSuccessRate: rate(swaps, executeFailures.length),
+      settled: settlements.filter(row => row.status === 'completed').length,
+      settlementFailures: settlements.filter(row => row.status !== 'completed').length,
+      errors: Object.fromEntries(ERROR_TYPES.map(type => [type, failures.filter(row => row.errorType === type).length])),
+    }
   })
 }
 
+// Request body parsed as JSON ({} if empty)
+function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {})
+      } catch {
+        reject(new Error('Invalid JSON body'))
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+// Numeric Chainflip explorer ID of a swap that hasn't settled yet (known only to the live tracker)
+const chainflipId = (swapId: string) => chainflip.getPendingSwapInfo(swapId)?.numericSwapId || null
+
+// Live dashboard connections (/api/events)
+let liveClients = 0
+const HEARTBEAT_MS = 25_000
+
+// Balances are pushed to live dashboards every 30s while one is connected, and after each swap or settlement
+const BALANCE_INTERVAL_MS = 30_000
+let lastBalances: BalanceResult | null = null
+
+async function publishBalances() {
+  const balances = await getBalances().catch(() => null)
+  if (!balances || JSON.stringify(balances) === JSON.stringify(lastBalances)) return
+  lastBalances = balances
+  publish({ type: 'balances', balances })
+}
+
 export function startServer() {
+  logAuthConfig()
+  const host = dashboardHost()
+  if (host === null) return
+  subscribe(event => {
+    if (liveClients > 0 && event.type === 'row' && (event.row.type === 'swap' || event.row.type === 'settlement')) {
+      publishBalances()
+    }
+  })
+  setInterval(() => {
+    if (liveClients > 0) publishBalances()
+  }, BALANCE_INTERVAL_MS)
+
   const server = createServer((req, res) => {
-    const csvFile = join(process.cwd(), 'data.csv')
+    // Only the dashboard's own origin and DASHBOARD_ALLOWED_ORIGINS may call the API from a browser
+    const originAllowed = applyCors(req, res)
+    if (req.method === 'OPTIONS') {
+      res.statusCode = originAllowed ? 204 : 403
+      res.end()
+      return
+    }
+    if (!originAllowed) {
+      res.statusCode = 403
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      res.end(JSON.stringify({ error: 'Origin not allowed' }))
+      return
+    }
+    // Everything below needs at least the viewer role; operator actions check again
+    if (!authorize(req, res, 'viewer')) return
+
+    // Row and analytics endpoints take ?experiment=<name> (all experiments if absent)
+    const url = new URL(req.url || '/', `http://localhost:${PORT}`)
+    const experiment = url.searchParams.get('experiment') || undefined
+
+    // Server-sent events: rows, status transitions, balances and Chainflip IDs as they happen
+    if (url.pathname === '/api/events') {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      })
+      const send = (event: LiveEvent) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      res.write('retry: 5000\n\n')
+      const unsubscribe = subscribe(send)
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS)
+      liveClients++
+      if (lastBalances) send({ type: 'balances', balances: lastBalances })
+      else publishBalances()
+      req.on('close', () => {
+        unsubscribe()
+        clearInterval(heartbeat)
+        liveClients--
+      })
+      return
+    }
+
+    if (url.pathname === '/api/data') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      res.end(JSON.stringify(getDataRows(experiment)))
+      return
+    }
+
+    if (url.pathname === '/api/reliability') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      res.end(JSON.stringify(providerReliability(experiment)))
+      return
+    }
+
+    // Analytics over a time window (?window=7d or ?from=&to= ISO dates): fee statistics per provider × pair ×
+    // size tier × direction, quoted-vs-delivered accuracy, per-cycle rankings, win rate / regret per provider,
+    // bucketed chart series (?direction=btc-evm|evm-btc), paginated journeys (see journeys.ts for filters) and
+    // experiments side by side (?experiments=a,b - all if absent)
+    const analytics: Record<string, (window: ReturnType<typeof parseWindow>, params: URLSearchParams) => unknown> = {
+      '/api/stats': computeStats,
+      '/api/quote-accuracy': quoteAccuracy,
+      '/api/repriced-fees': repricedFees,
+      '/api/rankings': cycleRankings,
+      '/api/competitiveness': competitiveness,
+      '/api/series': (window, params) => timeSeries(window, parseDirection(params)),
+      '/api/journeys': (window, params) => listJourneys(parseJourneyQuery(params, window), chainflipId),
+      '/api/experiments/compare': (window, params) => {
+        const names = params.get('experiments')
+        return compareExperiments(names !== null ? names.split(',').filter(Boolean) : listExperiments().map(e => e.name), window)
+      },
+    }
+    // Full record for one journey (swapId URL-encoded)
+    if (url.pathname.startsWith('/api/journeys/')) {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      try {
+        const journey = getJourney(decodeURIComponent(url.pathname.slice('/api/journeys/'.length)), chainflipId)
+        if (!journey) res.statusCode = 404
+        res.end(JSON.stringify(journey || { error: 'journey not found' }))
+      } catch (err) {
+        // Malformed percent-encoding in the swap ID
+        res.statusCode = err instanceof URIError ? 400 : 500
+        res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }))
+      }
+      return
+    }
+
+    if (analytics[url.pathname]) {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      try {
+        res.end(JSON.stringify(analytics[url.pathname](parseWindow(url.searchParams), url.searchParams)))
+      } catch (err) {
+        res.statusCode = 400
+        res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }))
+      }
+      return
+    }
+
+    if (url.pathname === '/api/cycles') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      // Rows grouped by scheduler cycle, newest first (rows logged before cycle IDs existed are left out)
+      const cycles = new Map<string, { cycleId: string; startedAt: string; quotes: object[]; swaps: object[]; settlements: object[] }>()
+      for (const row of getDataRows(experiment)) {
+        if (!row.cycleId) continue
+        const cycle = cycles.get(row.cycleId) || { cycleId: row.cycleId, startedAt: row.timestamp, quotes: [], swaps: [], settlements: [] }
+        if (row.type === 'quote') cycle.quotes.push(row)
+        else if (row.type === 'swap') cycle.swaps.push(row)
+        else if (row.type === 'settlement') cycle.settlements.push(row)
+        cycles.set(row.cycleId, cycle)
+      }
+      res.end(JSON.stringify([...cycles.values()].reverse()))
+      return
+    }
+
+    // CSV export in the spreadsheet column layout
+    if (url.pathname === '/api/export.csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+      res.setHeader('Content-Disposition', 'attachment; filename="data.csv"')
+      res.end(exportCsv(experiment))
+      return
+    }
+
+    // Prometheus scrape target (viewer role - configure the scraper with a bearer token if one is set)
+    if (url.pathname === '/metrics') {
+      res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+      renderMetrics()
+        .then(metrics => res.end(metrics))
+        .catch(err => {
+          res.statusCode = 500
+          res.end(`# metrics failed: ${err instanceof Error ? err.message : err}\n`)
+        })
+      return
+    }
+
+    // Experiments with row counts, newest first
+    if (url.pathname === '/api/experiments' && req.method !== 'POST') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      res.end(JSON.stringify(listExperiments()))
+      return
+    }
 
-    if (req.url === '/api/data') {
+    // Start (or resume) a named experiment, archiving the active one: {"name": "...", "note": "..."}.
+    // /api/clear does the same under a generated name - nothing is deleted.
+    if ((url.pathname === '/api/experiments' || url.pathname === '/api/clear') && req.method === 'POST') {
+      const action = url.pathname === '/api/clear' ? 'clear' : 'start-experiment'
+      const operator = authorize(req, res, 'operator', action)
+      if (!operator) return
       res.setHeader('Content-Type', 'application/json; charset=utf-8')
-      res.setHeader('Access-Control-Allow-Origin', '*')
-      const data = parseCSV(csvFile)
-      res.end(JSON.stringify(data))
+      const archived = activeExperiment()
+      readJson(req)
+        .then(body => {
+          const name = body.name ? String(body.name) : `Experiment ${new Date().toISOString().slice(0, 16).replace('T', ' ')}`
+          const started = startExperiment(name, body.note ? String(body.note) : null)
+          audit(action, operator, 'ok', started.name === archived ? `"${archived}" already active` : `started "${started.name}", archived "${archived}"`)
+          res.end(JSON.stringify(started))
+        })
+        .catch(err => {
+          const message = err instanceof Error ? err.message : String(err)
+          audit(action, operator, 'error', message)
+          res.statusCode = 400
+          res.end(JSON.stringify({ error: message }))
+        })
       return
     }
 
-    if (req.url === '/api/clear' && req.method === 'POST') {
+    // Operator actions and denied attempts, newest first
+    if (url.pathname === '/api/audit') {
+      if (!authorize(req, res, 'operator')) return
       res.setHeader('Content-Type', 'application/json; charset=utf-8')
-      res.setHeader('Access-Control-Allow-Origin', '*')
-      writeFileSync(csvFile, CSV_HEADER + '\n')
-      res.end(JSON.stringify({ success: true }))
+      res.end(JSON.stringify(getAuditLog()))
       return
     }
 
-    if (req.url === '/api/chainflip-pending') {
+    if (url.pathname === '/api/chainflip-pending') {
       res.setHeader('Content-Type', 'application/json; charset=utf-8')
-      res.setHeader('Access-Control-Allow-Origin', '*')
       // Return pending chainflip swap IDs that we know about (from status checks)
-      const data = parseCSV(csvFile)
+      const data = getDataRows()
       const allChainflipSwaps = data
-        .filter((d: any) => d.type === 'swap' && d.provider === 'Chainflip' && d.status === 'pending')
+        .filter((d: any) => d.type === 'swap' && d.provider.startsWith('Chainflip') && d.status === 'pending')
         .map((d: any) => {
           const info = chainflip.getPendingSwapInfo(d.swapId)
           return {
@@ -63,18 +311,30 @@ export function startServer() {
       return
     }
 
-    if (req.url === '/api/balances') {
+    if (url.pathname === '/api/lifecycle') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      // Stage transitions + time spent per stage (ms) for every executed swap
+      const lifecycles = [...getAllTransitions()].map(([swapId, transitions]) => ({
+        swapId,
+        provider: transitions[0]?.provider,
+        stage: transitions[transitions.length - 1]?.stage,
+        transitions,
+        durations: stageDurations(transitions),
+      }))
+      res.end(JSON.stringify(lifecycles))
+      return
+    }
+
+    if (url.pathname === '/api/balances') {
       res.setHeader('Content-Type', 'application/json; charset=utf-8')
-      res.setHeader('Access-Control-Allow-Origin', '*')
       getBalances()
         .then(balances => res.end(JSON.stringify(balances)))
         .catch(() => res.end(JSON.stringify({ btc: '0', eth: '0', usdc: '0', cbbtc: '0' })))
       return
     }
 
-    if (req.url === '/api/addresses') {
+    if (url.pathname === '/api/addresses') {
       res.setHeader('Content-Type', 'application/json; charset=utf-8')
-      res.setHeader('Access-Control-Allow-Origin', '*')
       res.end(JSON.stringify({ btc: BTC_ADDRESS, evm: EVM_ADDRESS }))
       return
     }
@@ -291,6 +551,63 @@ export function startServer() {
       margin-top: 2px;
     }
 
+    /* Trend Charts (inline SVG, no chart library) */
+    .charts-grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(420px, 1fr));
+      gap: 16px;
+      margin-bottom: 16px;
+    }
+
+    .chart-card {
+      background: var(--bg-card);
+      border: 1px solid var(--border);
+      border-radius: 16px;
+      padding: 16px 20px;
+    }
+
+    .chart-title {
+      font-size: 0.85rem;
+      font-weight: 600;
+      color: var(--text-secondary);
+      margin-bottom: 8px;
+    }
+
+    .chart-card svg {
+      width: 100%;
+      height: auto;
+      display: block;
+    }
+
+    .chart-card svg text {
+      fill: var(--text-muted);
+      font-size: 10px;
+    }
+
+    .chart-empty {
+      color: var(--text-muted);
+      font-size: 0.85rem;
+      padding: 24px 0;
+      text-align: center;
+    }
+
+    .chart-legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 12px;
+      margin-top: 8px;
+      font-size: 0.75rem;
+    }
+
+    .chart-legend span {
+      cursor: pointer;
+      user-select: none;
+    }
+
+    .chart-legend span.hidden {
+      opacity: 0.35;
+    }
+
     /* Table Card */
     .table-card {
       background: var(--bg-card);
@@ -376,33 +693,17 @@ export function startServer() {
       color: var(--accent-green);
     }
 
+    .badge-failure {
+      background: rgba(239, 68, 68, 0.1);
+      color: var(--accent-red);
+    }
+
     .provider-badge {
       display: inline-flex;
       align-items: center;
       gap: 6px;
       padding: 4px 10px;
       background: rgba(245, 158, 11, 0.1);
-      font-weight: 500;
-    }
-    
-    .provider-badge.relay {
-      background: rgba(236, 72, 153, 0.1);
-      color: var(--accent-pink);
-    }
-    
-    .provider-badge.rift {
-      background: rgba(168, 85, 247, 0.1);
-      color: var(--accent-purple);
-    }
-    
-    .provider-badge.thorchain {
-      background: rgba(34, 197, 94, 0.1);
-      color: var(--accent-green);
-    }
-    
-    .provider-badge.chainflip {
-      background: rgba(245, 158, 11, 0.1);
-      color: var(--accent-orange);
       border-radius: 6px;
       color: var(--accent-orange);
       font-size: 0.8rem;
@@ -755,22 +1056,8 @@ export function startServer() {
       text-align: center;
     }
 
-    .journey-provider.rift {
-      background: rgba(168, 85, 247, 0.1);
-      color: var(--accent-purple);
-    }
-    .journey-provider.relay {
-      background: rgba(236, 72, 153, 0.1);
-      color: var(--accent-pink);
-    }
-    .journey-provider.thorchain {
-      background: rgba(34, 197, 94, 0.1);
-      color: var(--accent-green);
-    }
-    .journey-provider.chainflip {
-      background: rgba(245, 158, 11, 0.1);
-      color: var(--accent-orange);
-    }
+    /* Per-provider colors (generated from the provider registry) */
+${providerStyles()}
 
     .journey-direction {
       font-family: 'Fira Code', monospace;
@@ -902,7 +1189,10 @@ export function startServer() {
         </div>
       </div>
       <div class="header-actions">
-        <button class="btn btn-danger" onclick="clearData()">Clear Data</button>
+        <div class="journey-filters">
+          <select id="experimentSelect" onchange="selectExperiment()" title="Experiment"></select>
+        </div>
+        <button class="btn btn-danger" onclick="newExperiment()" title="Archive the current experiment and log new rows under a new one">New Experiment</button>
         <button class="btn btn-secondary" onclick="loadData()">↻ Refresh</button>
       </div>
     </div>
@@ -995,6 +1285,9 @@ export function startServer() {
           <select id="providerFilter" onchange="applyFilters()">
             <option value="all">All Providers</option>
           </select>
+          <select id="cycleFilter" onchange="applyFilters()">
+            <option value="all">All Cycles</option>
+          </select>
           <span style="color: var(--text-muted); font-size: 0.8rem;" id="journeyCount">0 swaps</span>
         </div>
       </div>
@@ -1011,6 +1304,101 @@ export function startServer() {
       </div>
     </div>
 
+    <div class="journeys-section">
+      <div class="section-header">
+        <div class="section-title">Trends</div>
+        <div class="journey-filters">
+          <select id="chartRange" onchange="loadCharts()">
+            <option value="24h">Last 24 hours</option>
+            <option value="7d" selected>Last 7 days</option>
+            <option value="30d">Last 30 days</option>
+            <option value="all">All time</option>
+          </select>
+          <select id="chartDirection" onchange="loadCharts()">
+            <option value="all">All Directions</option>
+            <option value="btc-evm">BTC → EVM</option>
+            <option value="evm-btc">EVM → BTC</option>
+          </select>
+        </div>
+      </div>
+      <div class="charts-grid" id="feeCharts"></div>
+      <div class="charts-grid" id="quoteCharts"></div>
+      <div class="charts-grid">
+        <div class="chart-card">
+          <div class="chart-title">Settlement Latency (median minutes)</div>
+          <div id="latencyChart"></div>
+        </div>
+      </div>
+    </div>
+
+    <div class="table-card" style="margin-bottom: 32px;">
+      <div class="table-header">
+        <div class="table-title">Provider Reliability</div>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>Provider</th>
+            <th>Quote Success</th>
+            <th>Execution Success</th>
+            <th>Settled</th>
+            <th>Failures</th>
+          </tr>
+        </thead>
+        <tbody id="reliabilityBody"></tbody>
+      </table>
+    </div>
+
+    <div class="table-card" style="margin-bottom: 32px;">
+      <div class="table-header">
+        <div class="table-title">Quote Accuracy (delivered vs quoted)</div>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>Provider</th>
+            <th>Pair</th>
+            <th>Settled</th>
+            <th>Median (p10 / p90)</th>
+            <th>Below Quote</th>
+            <th>Worst</th>
+            <th>Delay Correlation</th>
+          </tr>
+        </thead>
+        <tbody id="accuracyBody"></tbody>
+      </table>
+    </div>
+
+    <div class="table-card" style="margin-bottom: 32px;">
+      <div class="table-header">
+        <div class="table-title">Competitiveness (win rate &amp; regret vs best in cycle)</div>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>Provider</th>
+            <th>Pair</th>
+            <th>Best Quote</th>
+            <th>Avg Quote Regret</th>
+            <th>Best Delivered</th>
+            <th>Avg Delivered Regret</th>
+          </tr>
+        </thead>
+        <tbody id="competitivenessBody"></tbody>
+      </table>
+    </div>
+
+    <div class="table-card" style="margin-bottom: 32px;">
+      <div class="table-header">
+        <div class="table-title">Experiments (median fee, side by side)</div>
+        <div class="chart-legend" id="experimentChips"></div>
+      </div>
+      <table>
+        <thead id="experimentHead"></thead>
+        <tbody id="experimentBody"></tbody>
+      </table>
+    </div>
+
     <div class="table-card">
       <div class="table-header">
         <div class="table-title">All Activity (Raw)</div>
@@ -1049,6 +1437,36 @@ export function startServer() {
     let allData = []
     let allJourneys = []
     
+    // Provider display metadata from the provider registry
+    const PROVIDER_META = ${JSON.stringify(providerMeta())}
+    const providerEmoji = (provider) => PROVIDER_META[provider]?.emoji || '📦'
+    const providerAccent = (provider) => PROVIDER_META[provider]?.accent || 'orange'
+    
+    // Experiment names are operator-entered
+    const escapeHtml = (text) => String(text).replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c])
+    
+    // Experiments (newest first) and the one being viewed ('' = all)
+    let experiments = []
+    const selectedExperiment = () => document.getElementById('experimentSelect').value
+    
+    function withExperiment(url) {
+      const experiment = selectedExperiment()
+      if (!experiment) return url
+      return url + (url.includes('?') ? '&' : '?') + 'experiment=' + encodeURIComponent(experiment)
+    }
+    
+    // Convert a base-unit amount (sats/wei) to human-readable
+    // Older rows may already be human-readable decimals - pass those through
+    function fromBaseUnits(raw, token) {
+      if (!raw) return ''
+      if (String(raw).includes('.')) return String(raw)
+      const decimals = { BTC: 8, CBBTC: 8, USDC: 6, ETH: 18 }[token] || 18
+      const padded = String(raw).padStart(decimals + 1, '0')
+      const whole = padded.slice(0, -decimals) || '0'
+      const frac = padded.slice(-decimals).replace(/0+$/, '')
+      return frac ? whole + '.' + frac : whole
+    }
+    
     // Copy text to clipboard with feedback
     async function copyToClipboard(text, btn) {
       try {
@@ -1072,16 +1490,20 @@ export function startServer() {
       const swaps = data.filter(d => d.type === 'swap')
       const settlements = data.filter(d => d.type === 'settlement')
       
+      const quotesById = new Map(quotes.filter(q => q.quoteId).map(q => [q.quoteId, q]))
+      
       // First, create journeys from swaps
       for (const swap of swaps) {
         if (!swap.swapId) continue
         
-        // Find matching quote (same tokens, within 2 minutes before the swap)
+        // Swaps carry the quoteId they executed; rows logged before quote IDs existed
+        // fall back to the same provider's quote for the same tokens within 2 minutes
         const swapTime = new Date(swap.timestamp).getTime()
-        const matchingQuote = quotes.find(q => {
+        const matchingQuote = swap.quoteId ? quotesById.get(swap.quoteId) : quotes.find(q => {
           const quoteTime = new Date(q.timestamp).getTime()
           const timeDiff = swapTime - quoteTime
-          const matches = q.inputToken === swap.inputToken && 
+          const matches = q.provider === swap.provider &&
+            q.inputToken === swap.inputToken && 
             q.outputToken === swap.outputToken &&
             timeDiff >= 0 && timeDiff < 120000
           // Debug log for CBBTC swaps
@@ -1100,7 +1522,7 @@ export function startServer() {
         let matchingSettlement = settlements.find(s => s.swapId === swap.swapId)
         
         // For Chainflip swaps, check if we have a pending swap ID from the live tracker
-        if (swap.provider === 'Chainflip' && !matchingSettlement?.chainflipSwapId && cfSwapIdMap[swap.swapId]) {
+        if (swap.provider.startsWith('Chainflip') && !matchingSettlement?.chainflipSwapId && cfSwapIdMap[swap.swapId]) {
           // Create a pseudo-settlement object with the chainflip swap ID if we don't have one
           if (!matchingSettlement) {
             matchingSettlement = { chainflipSwapId: cfSwapIdMap[swap.swapId] }
@@ -1119,6 +1541,7 @@ export function startServer() {
           inputAmount: swap.inputAmount,
           outputAmount: swap.outputAmount,
           provider: swap.provider,
+          cycleId: swap.cycleId || null,
           startTime: matchingQuote?.timestamp || swap.timestamp,
           relayRequestId: swap.relayRequestId || null,
         })
@@ -1130,9 +1553,32 @@ export function startServer() {
       )
     }
     
+    // Quote fee breakdown section (from a quote row's fee columns)
+    function renderFeeBreakdown(quote) {
+      if (!quote?.feeBreakdown) return ''
+      const labels = { network: 'Network / Gas', protocol: 'Protocol', liquidity: 'Liquidity / Slippage', affiliate: 'Affiliate / Broker', outbound: 'Outbound' }
+      const rows = quote.feeBreakdown.split(';').map(entry => {
+        const [type, amount] = entry.split(':')
+        const usd = quote[type + 'FeeUsd']
+        return \`
+          <div class="modal-row">
+            <span class="modal-label">\${labels[type] || type}</span>
+            <span class="modal-value">\${amount}\${usd ? \` <span style="color:var(--text-muted)">($\${parseFloat(usd).toFixed(2)})</span>\` : ''}</span>
+          </div>
+        \`
+      }).join('')
+      return \`
+        <div class="modal-section">
+          <div class="modal-section-title">Quoted Fees</div>
+          \${rows}
+        </div>
+      \`
+    }
+    
     function getFilteredJourneys() {
       const directionFilter = document.getElementById('directionFilter').value
       const providerFilter = document.getElementById('providerFilter').value
+      const cycleFilter = document.getElementById('cycleFilter').value
       
       return allJourneys.filter(j => {
         // Direction filter
@@ -1145,6 +1591,9 @@ export function startServer() {
         // Provider filter
         if (providerFilter !== 'all' && j.provider !== providerFilter) return false
         
+        // Cycle filter
+        if (cycleFilter !== 'all' && j.cycleId !== cycleFilter) return false
+        
         return true
       })
     }
@@ -1173,6 +1622,22 @@ export function startServer() {
         providers.map(p => \`<option value="\${p}">\${p}</option>\`).join('')
     }
     
+    // Cycles newest first, labelled by start time (keeps the current selection across refreshes)
+    function populateCycleFilter() {
+      const cycleStarts = new Map()
+      for (const j of allJourneys) {
+        if (!j.cycleId) continue
+        const start = cycleStarts.get(j.cycleId)
+        if (!start || j.startTime < start) cycleStarts.set(j.cycleId, j.startTime)
+      }
+      const cycles = [...cycleStarts.entries()].sort((a, b) => b[1].localeCompare(a[1]))
+      const select = document.getElementById('cycleFilter')
+      const selected = select.value
+      select.innerHTML = '<option value="all">All Cycles</option>' +
+        cycles.map(([id, start]) => \`<option value="\${id}">\${new Date(start).toLocaleString()} (\${id.slice(0, 8)})</option>\`).join('')
+      select.value = cycleStarts.has(selected) ? selected : 'all'
+    }
+    
     function getJourneyStatus(journey) {
       if (journey.settlement) {
         // If we have a settlement record, check if it failed or succeeded
@@ -1219,7 +1684,9 @@ export function startServer() {
         timeout: 'Timeout',
         failed: 'Failed'
       }
-      const statusLabel = statusLabels[status] || status
+      // Pending swaps show their latest lifecycle stage (e.g. deposit confirmed) when known
+      const stage = journeyStages[journey.swapId]
+      const statusLabel = status === 'pending' && stage ? stage.replace(/_/g, ' ') : statusLabels[status] || status
       const statusClass = ['timeout', 'failed', 'stuck'].includes(status) ? 'stuck' : status
       const startTime = new Date(journey.startTime)
       const elapsed = (journey.settlement && journey.settlement.timestamp)
@@ -1229,24 +1696,14 @@ export function startServer() {
       const formatTime = (ts) => ts ? new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '—'
       
       const providerClass = journey.provider.toLowerCase()
-      const providerEmoji = { Rift: '🌀', Relay: '🔗', Thorchain: '⚡', Chainflip: '🔄' }[journey.provider] || '⚡'
       const quoteTime = journey.quote ? formatTime(journey.quote.timestamp) : '—'
       const swapTime = formatTime(journey.swap.timestamp)
       const settlementTime = journey.settlement ? formatTime(journey.settlement.timestamp) : '—'
       
-      // Expected output from swap
-      const expectedOutput = journey.swap.outputAmount || journey.outputAmount
-      
-      // Actual output from settlement (needs conversion from smallest unit)
-      let actualOutput = null
-      if (journey.settlement?.actualOutputAmount) {
-        const decimals = { BTC: 8, CBBTC: 8, USDC: 6, ETH: 18 }[journey.outputToken] || 18
-        const raw = journey.settlement.actualOutputAmount
-        const padded = raw.padStart(decimals + 1, '0')
-        const whole = padded.slice(0, -decimals) || '0'
-        const frac = padded.slice(-decimals).replace(/0+$/, '')
-        actualOutput = frac ? whole + '.' + frac : whole
-      }
+      // Actual output from settlement (stored in base units)
+      const actualOutput = journey.settlement?.actualOutputAmount
+        ? fromBaseUnits(journey.settlement.actualOutputAmount, journey.outputToken)
+        : null
       
       // Fee metrics from settlement or swap
       const inputUsd = journey.settlement?.inputUsd || journey.swap?.inputUsd || ''
@@ -1258,7 +1715,7 @@ export function startServer() {
       
       return \`
         <div class="journey-row \${statusClass}" onclick="showJourneyDetails(\${idx})">
-          <span class="journey-provider \${providerClass}">\${providerEmoji} \${journey.provider}</span>
+          <span class="journey-provider \${providerClass}">\${providerEmoji(journey.provider)} \${journey.provider}</span>
           <span class="journey-direction">\${journey.inputToken} → \${journey.outputToken}</span>
           <span class="journey-amount">\${journey.inputAmount} \${journey.inputToken}</span>
           <div class="journey-metrics">
@@ -1351,6 +1808,13 @@ export function startServer() {
       const endTime = (journey.settlement && journey.settlement.timestamp) ? new Date(journey.settlement.timestamp).getTime() : Date.now()
       const totalElapsed = formatElapsed(endTime - startTime)
       
+      // Delivered minus quoted output in bps (on-chain verified amount, else provider-reported)
+      const deliveredRaw = journey.settlement?.verifiedOutputAmount || journey.settlement?.actualOutputAmount
+      const quotedOutput = parseFloat(fromBaseUnits(journey.outputAmount, journey.outputToken))
+      const quoteAccuracyBips = deliveredRaw && quotedOutput > 0
+        ? (parseFloat(fromBaseUnits(deliveredRaw, journey.outputToken)) - quotedOutput) / quotedOutput * 10000
+        : null
+      
       let html = \`
         <div class="modal-section">
           <div class="modal-section-title">Overview</div>
@@ -1364,12 +1828,18 @@ export function startServer() {
           </div>
           <div class="modal-row">
             <span class="modal-label">Expected Output</span>
-            <span class="modal-value success">\${journey.outputAmount} \${journey.outputToken === 'BTC' ? 'sats' : journey.outputToken}</span>
+            <span class="modal-value success">\${fromBaseUnits(journey.outputAmount, journey.outputToken)} \${journey.outputToken}</span>
           </div>
           \${journey.settlement?.actualOutputAmount ? \`
           <div class="modal-row">
             <span class="modal-label">Actual Output</span>
-            <span class="modal-value success">\${journey.settlement.actualOutputAmount} \${journey.outputToken === 'BTC' ? 'sats' : journey.outputToken}</span>
+            <span class="modal-value success">\${fromBaseUnits(journey.settlement.actualOutputAmount, journey.outputToken)} \${journey.outputToken}</span>
+          </div>
+          \` : ''}
+          \${quoteAccuracyBips !== null ? \`
+          <div class="modal-row">
+            <span class="modal-label">Delivered vs Quote</span>
+            <span class="modal-value" style="color: \${quoteAccuracyBips < 0 ? 'var(--accent-red)' : 'var(--accent-green)'}; font-weight: 600;">\${quoteAccuracyBips > 0 ? '+' : ''}\${quoteAccuracyBips.toFixed(1)} bps</span>
           </div>
           \` : ''}
           <div class="modal-row">
@@ -1380,6 +1850,18 @@ export function startServer() {
             <span class="modal-label">Total Time</span>
             <span class="modal-value">\${totalElapsed}</span>
           </div>
+          \${journey.cycleId ? \`
+          <div class="modal-row">
+            <span class="modal-label">Cycle</span>
+            <span class="modal-value" style="font-size:0.75rem;">\${journey.cycleId}</span>
+          </div>
+          \` : ''}
+          \${journey.settlement?.routeDetails || journey.swap?.routeDetails ? \`
+          <div class="modal-row">
+            <span class="modal-label">Route</span>
+            <span class="modal-value" style="font-size:0.75rem;">\${(journey.settlement?.routeDetails || journey.swap.routeDetails).replace(/;/g, ' · ')}</span>
+          </div>
+          \` : ''}
         </div>
         
         \${journey.settlement?.feeBips ? \`
@@ -1401,6 +1883,16 @@ export function startServer() {
             <span class="modal-label">Fee (BIPs)</span>
             <span class="modal-value" style="color: \${parseFloat(journey.settlement.feeBips) > 0 ? 'var(--accent-red)' : 'var(--accent-green)'}; font-weight: 600;">\${parseFloat(journey.settlement.feeBips) > 0 ? '+' : ''}\${parseFloat(journey.settlement.feeBips || 0).toFixed(0)} bips (\${(parseFloat(journey.settlement.feeBips || 0) / 100).toFixed(2)}%)</span>
           </div>
+          \${journey.settlement.totalFeeBips ? \`
+          <div class="modal-row">
+            <span class="modal-label">Network Cost</span>
+            <span class="modal-value">$\${parseFloat(journey.settlement.networkCostUsd || 0).toFixed(2)}</span>
+          </div>
+          <div class="modal-row">
+            <span class="modal-label">All-in Fee</span>
+            <span class="modal-value" style="font-weight: 600;">\${parseFloat(journey.settlement.totalFeeBips).toFixed(0)} bips (\${(parseFloat(journey.settlement.totalFeeBips) / 100).toFixed(2)}%)</span>
+          </div>
+          \` : ''}
         </div>
         \` : journey.swap?.inputUsd ? \`
         <div class="modal-section">
@@ -1416,6 +1908,8 @@ export function startServer() {
         </div>
         \` : ''}
         
+        \${renderFeeBreakdown(journey.quote)}
+        
         <div class="modal-section">
           <div class="modal-section-title">IDs & Transactions</div>
           \${isRift ? \`
@@ -1448,8 +1942,9 @@ export function startServer() {
             <span class="modal-value"><a href="https://relay.link/transaction/\${journey.relayRequestId}" target="_blank">View on Relay</a>\${copyBtn(journey.relayRequestId, 'Request ID')}</span>
           </div>
           \` : ''}
-          \${journey.provider === 'Thorchain' && journey.swap?.swapId ? (() => {
+          \${(journey.provider === 'Thorchain' || journey.provider === 'Maya') && journey.swap?.swapId ? (() => {
             const thorTxId = journey.swap.swapId.replace(/^0x/i, '').toUpperCase();
+            const isMaya = journey.provider === 'Maya';
             const isBtcInput = journey.inputToken === 'BTC';
             const depositExplorer = isBtcInput 
               ? \`https://mempool.space/tx/\${journey.swap.swapId}\`
@@ -1460,17 +1955,21 @@ export function startServer() {
             <span class="modal-value"><a href="\${depositExplorer}" target="_blank">\${journey.swap.swapId.slice(0, 16)}...</a>\${copyBtn(journey.swap.swapId, 'Deposit Tx')}</span>
           </div>
           <div class="modal-row">
-            <span class="modal-label">THORChain Tx</span>
+            <span class="modal-label">\${isMaya ? 'Maya' : 'THORChain'} Tx</span>
             <span class="modal-value">
+              \${isMaya ? \`
+              <a href="https://www.explorer.mayachain.info/tx/\${thorTxId}" target="_blank">Maya Explorer</a>
+              \` : \`
               <a href="https://viewblock.io/thorchain/tx/\${thorTxId}" target="_blank">ViewBlock</a>
               &nbsp;|&nbsp;
               <a href="https://track.ninerealms.com/\${thorTxId}" target="_blank">9R Tracker</a>
+              \`}
               \${copyBtn(thorTxId, 'Tx ID')}
             </span>
           </div>
           \`;
           })() : ''}
-          \${journey.provider === 'Chainflip' && journey.swap?.swapId ? (() => {
+          \${journey.provider.startsWith('Chainflip') && journey.swap?.swapId ? (() => {
             const isBtcInput = journey.inputToken === 'BTC';
             const depositTxHash = journey.swap.txHash || journey.swap.swapId;
             const depositExplorer = isBtcInput 
@@ -1554,7 +2053,7 @@ export function startServer() {
           <div class="modal-section-title">Provider</div>
           <div class="modal-row">
             <span class="modal-label">Provider</span>
-            <span class="modal-value" style="color: var(--accent-\${{ Relay: 'pink', Rift: 'purple', Thorchain: 'green', Chainflip: 'orange' }[journey.provider] || 'orange'})">\${{ Rift: '🌀', Relay: '🔗', Thorchain: '⚡', Chainflip: '🔄' }[journey.provider] || '⚡'} \${journey.provider}</span>
+            <span class="modal-value" style="color: var(--accent-\${providerAccent(journey.provider)})">\${providerEmoji(journey.provider)} \${journey.provider}</span>
           </div>
         </div>
       \`
@@ -1563,80 +2062,344 @@ export function startServer() {
       modal.classList.add('active')
     }
     
+    // Provider reliability table: success rates plus failure counts by error type
+    function renderReliability(stats) {
+      const pct = (rate) => rate === null ? '—' : (rate * 100).toFixed(0) + '%'
+      const tbody = document.getElementById('reliabilityBody')
+      if (stats.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="5" style="color: var(--text-muted); text-align: center;">No data yet.</td></tr>'
+        return
+      }
+      tbody.innerHTML = stats.map(s => {
+        const errors = Object.entries(s.errors)
+          .filter(([, count]) => count > 0)
+          .map(([type, count]) => \`<span class="badge badge-failure">\${type.replace(/_/g, ' ')} \${count}</span>\`)
+          .join(' ')
+        return \`
+          <tr>
+            <td><span class="provider-badge \${s.provider.toLowerCase()}">\${providerEmoji(s.provider)} \${s.provider}</span></td>
+            <td>\${pct(s.quoteSuccessRate)} <span style="color: var(--text-muted)">(\${s.quotes}/\${s.quotes + s.quoteFailures})</span></td>
+            <td>\${pct(s.executeSuccessRate)} <span style="color: var(--text-muted)">(\${s.swaps}/\${s.swaps + s.executeFailures})</span></td>
+            <td>\${s.settled}\${s.settlementFailures ? \` <span style="color: var(--accent-red)">(\${s.settlementFailures} failed)</span>\` : ''}</td>
+            <td>\${errors || '<span style="color: var(--text-muted)">—</span>'}</td>
+          </tr>
+        \`
+      }).join('')
+    }
+    
+    // Quote accuracy table: distribution of delivered-minus-quoted output (bps) per provider and pair
+    function renderQuoteAccuracy(rows) {
+      const bps = (value) => value === null ? '—' : (value > 0 ? '+' : '') + value.toFixed(1)
+      const bpsColor = (value) => value === null || value >= 0 ? 'var(--accent-green)' : 'var(--accent-red)'
+      const tbody = document.getElementById('accuracyBody')
+      if (rows.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="7" style="color: var(--text-muted); text-align: center;">No settled swaps with reported output yet.</td></tr>'
+        return
+      }
+      tbody.innerHTML = rows.map(r => {
+        const d = r.deliveredVsQuotedBips
+        const worst = r.worst[0]
+        return \`
+          <tr>
+            <td><span class="provider-badge \${r.provider.toLowerCase()}">\${providerEmoji(r.provider)} \${r.provider}</span></td>
+            <td>\${r.pair}</td>
+            <td>\${r.settlements}</td>
+            <td><span style="color: \${bpsColor(d.p50)}">\${bps(d.p50)} bps</span> <span style="color: var(--text-muted)">(\${bps(d.p10)} / \${bps(d.p90)})</span></td>
+            <td>\${r.belowQuote}/\${r.settlements}</td>
+            <td>\${worst ? \`<span style="color: var(--accent-red)" title="\${worst.swapId}">\${bps(worst.deliveredVsQuotedBips)} bps</span>\` : '<span style="color: var(--text-muted)">—</span>'}</td>
+            <td>\${r.delayCorrelation === null ? '—' : r.delayCorrelation.toFixed(2)}</td>
+          </tr>
+        \`
+      }).join('')
+    }
+    
+    // Competitiveness table: how often each provider had the best quote / delivery in its cycle, and bps lost otherwise
+    function renderCompetitiveness({ providers }) {
+      const winRate = (s) => s.winRate === null ? '—' : \`\${(s.winRate * 100).toFixed(0)}% <span style="color: var(--text-muted)">(\${s.wins}/\${s.rounds})</span>\`
+      const regret = (s) => s.avgRegretBips === null ? '—' : s.avgRegretBips.toFixed(1) + ' bps'
+      const tbody = document.getElementById('competitivenessBody')
+      if (providers.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="6" style="color: var(--text-muted); text-align: center;">No cycles with two or more quotes yet.</td></tr>'
+        return
+      }
+      tbody.innerHTML = providers.map(p => \`
+        <tr>
+          <td><span class="provider-badge \${p.provider.toLowerCase()}">\${providerEmoji(p.provider)} \${p.provider}</span></td>
+          <td>\${p.pair}</td>
+          <td>\${winRate(p.quoted)}</td>
+          <td>\${regret(p.quoted)}</td>
+          <td>\${winRate(p.delivered)}</td>
+          <td>\${regret(p.delivered)}</td>
+        </tr>
+      \`).join('')
+    }
+    
+    // Trend charts: pre-bucketed series from /api/series drawn as inline SVG line charts
+    let chartSeries = null
+    const hiddenChartSeries = new Set()  // legend-toggled providers
+    
+    function toggleChartSeries(provider) {
+      if (hiddenChartSeries.has(provider)) hiddenChartSeries.delete(provider)
+      else hiddenChartSeries.add(provider)
+      renderCharts()
+    }
+    
+    // One line per series (x = bucket start, y = valueKey); hover a point for its value and sample count
+    function lineChart(series, { valueKey = 'mean', format = (v) => v.toFixed(0), unit = '' } = {}) {
+      const W = 600, H = 220, L = 48, R = 12, T = 12, B = 24
+      const lines = series
+        .filter(s => !hiddenChartSeries.has(s.provider))
+        .map(s => ({ ...s, points: s.points.filter(p => p[valueKey] !== null).map(p => ({ ...p, x: new Date(p.t).getTime(), y: p[valueKey] })) }))
+        .filter(s => s.points.length > 0)
+      const legend = '<div class="chart-legend">' + series.map(s =>
+        \`<span class="\${hiddenChartSeries.has(s.provider) ? 'hidden' : ''}" style="color: var(--accent-\${providerAccent(s.provider)})" onclick="toggleChartSeries('\${s.provider}')">● \${s.provider}</span>\`
+      ).join('') + '</div>'
+      if (lines.length === 0) return '<div class="chart-empty">No data in this range.</div>' + legend
+    
+      const all = lines.flatMap(s => s.points)
+      const xMin = Math.min(...all.map(p => p.x)), xMax = Math.max(...all.map(p => p.x))
+      const yMin = Math.min(0, ...all.map(p => p.y)), yMax = Math.max(0, ...all.map(p => p.y))
+      const xScale = (x) => L + (xMax === xMin ? (W - L - R) / 2 : (x - xMin) / (xMax - xMin) * (W - L - R))
+      const yScale = (y) => T + (yMax === yMin ? (H - T - B) / 2 : (yMax - y) / (yMax - yMin) * (H - T - B))
+      const dateLabel = (x) => new Date(x).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit' })
+    
+      const ticks = [0, 1, 2, 3].map(i => yMin + (yMax - yMin) * i / 3)
+      const grid = ticks.map(y => \`
+        <line x1="\${L}" x2="\${W - R}" y1="\${yScale(y)}" y2="\${yScale(y)}" stroke="var(--border)" />
+        <text x="\${L - 6}" y="\${yScale(y) + 3}" text-anchor="end">\${format(y)}</text>\`).join('')
+      const xLabels = \`
+        <text x="\${L}" y="\${H - 6}">\${dateLabel(xMin)}</text>
+        <text x="\${W - R}" y="\${H - 6}" text-anchor="end">\${dateLabel(xMax)}</text>\`
+      const paths = lines.map(s => {
+        const color = \`var(--accent-\${providerAccent(s.provider)})\`
+        const d = s.points.map((p, i) => \`\${i ? 'L' : 'M'}\${xScale(p.x).toFixed(1)},\${yScale(p.y).toFixed(1)}\`).join(' ')
+        const dots = s.points.map(p => \`<circle cx="\${xScale(p.x)}" cy="\${yScale(p.y)}" r="3" fill="\${color}"><title>\${s.provider} · \${dateLabel(p.x)} · \${format(p.y)}\${unit} (n=\${p.count})</title></circle>\`).join('')
+        return \`<path d="\${d}" fill="none" stroke="\${color}" stroke-width="1.5" />\${dots}\`
+      }).join('')
+      return \`<svg viewBox="0 0 \${W} \${H}">\${grid}\${xLabels}\${paths}</svg>\` + legend
+    }
+    
+    // One chart card per pair
+    function pairCharts(series, title, options) {
+      const pairs = [...new Set(series.map(s => s.pair))]
+      if (pairs.length === 0) return \`<div class="chart-card"><div class="chart-title">\${title('')}</div><div class="chart-empty">No data in this range.</div></div>\`
+      return pairs.map(pair => \`
+        <div class="chart-card">
+          <div class="chart-title">\${title(pair)}</div>
+          \${lineChart(series.filter(s => s.pair === pair), options)}
+        </div>\`).join('')
+    }
+    
+    function renderCharts() {
+      if (!chartSeries) return
+      const bps = { format: (v) => v.toFixed(0), unit: ' bps' }
+      document.getElementById('feeCharts').innerHTML = pairCharts(chartSeries.fees, (pair) => \`Fee (bps) \${pair}\`, bps)
+      document.getElementById('quoteCharts').innerHTML = pairCharts(chartSeries.quoteVsOracle, (pair) => \`Quoted Output vs Oracle Mid (bps) \${pair}\`, bps)
+      const latencyMinutes = chartSeries.latency.map(s => ({ ...s, points: s.points.map(p => ({ ...p, p50: p.p50 === null ? null : p.p50 / 60000 })) }))
+      document.getElementById('latencyChart').innerHTML = lineChart(latencyMinutes, { valueKey: 'p50', format: (v) => v.toFixed(1), unit: ' min' })
+    }
+    
+    async function loadCharts() {
+      const range = document.getElementById('chartRange').value
+      const direction = document.getElementById('chartDirection').value
+      const params = new URLSearchParams({ direction })
+      if (range !== 'all') params.set('window', range)
+      if (selectedExperiment()) params.set('experiment', selectedExperiment())
+      try {
+        const res = await fetch('/api/series?' + params)
+        chartSeries = await res.json()
+        renderCharts()
+      } catch (e) {
+        console.error('Failed to load chart series:', e)
+      }
+    }
+    
+    // Chainflip numeric IDs (from the live tracker) and latest lifecycle stage per swapId
+    let cfSwapIds = {}
+    const journeyStages = {}
+    
+    // Full load: rows, Chainflip IDs, lifecycle stages and analytics (on page load and after a stream reconnect)
     async function loadData() {
       try {
-        const [dataRes, cfPendingRes] = await Promise.all([
-          fetch('/api/data'),
-          fetch('/api/chainflip-pending')
+        const [dataRes, cfPendingRes, lifecycleRes] = await Promise.all([
+          fetch(withExperiment('/api/data')),
+          fetch('/api/chainflip-pending'),
+          fetch('/api/lifecycle')
         ])
         allData = await dataRes.json()
-        const cfPending = await cfPendingRes.json()
-        
-        // Build a map of swapId -> numericSwapId for quick lookup
-        const cfSwapIdMap = {}
-        for (const cf of cfPending) {
-          cfSwapIdMap[cf.swapId] = cf.numericSwapId
+        cfSwapIds = {}
+        for (const cf of await cfPendingRes.json()) {
+          cfSwapIds[cf.swapId] = cf.numericSwapId
         }
-        
-        const tbody = document.getElementById('tbody')
-        const journeysGrid = document.getElementById('journeysGrid')
-        const quotes = allData.filter(d => d.type === 'quote')
-        const swaps = allData.filter(d => d.type === 'swap')
-        const settlements = allData.filter(d => d.type === 'settlement')
-        
-        document.getElementById('quoteCount').textContent = quotes.length
-        document.getElementById('swapCount').textContent = swaps.length
-        document.getElementById('settlementCount').textContent = settlements.length
-        
-        // Build and render journeys
-        allJourneys = buildJourneys(allData, cfSwapIdMap)
-        populateProviderFilter()
-        
-        if (allJourneys.length === 0) {
-          document.getElementById('journeyCount').textContent = '0 swaps'
-          journeysGrid.innerHTML = '<div style="color: var(--text-muted); padding: 40px; text-align: center; grid-column: 1 / -1;">No swaps yet. Execute some swaps to track them here.</div>'
-        } else {
-          applyFilters()
+        for (const lifecycle of await lifecycleRes.json()) {
+          journeyStages[lifecycle.swapId] = lifecycle.stage
         }
-        
-        // Render raw table
-        if (allData.length === 0) {
-          tbody.innerHTML = \`
-            <tr>
-              <td colspan="8">
-                <div class="empty-state">
-                  <div class="empty-state-icon">📭</div>
-                  <div>No data yet. Start running swaps to see activity here.</div>
-                </div>
-              </td>
-            </tr>
-          \`
-          return
-        }
-        
-        tbody.innerHTML = allData.slice().reverse().map((row, idx) => {
-          const realIdx = allData.length - 1 - idx
-          const time = new Date(row.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
-          const badgeClass = row.type === 'settlement' ? 'badge-settlement' : row.type === 'swap' ? 'badge-swap' : 'badge-quote'
-          const status = row.type === 'settlement' ? (row.status || 'pending') : row.type === 'swap' ? 'pending' : '-'
-          
-          return \`
-            <tr onclick="showDetails(\${realIdx})">
-              <td style="color: var(--text-muted)">\${time}</td>
-              <td class="pair">\${row.inputToken}<span class="pair-arrow">→</span>\${row.outputToken}</td>
-              <td><span class="badge \${badgeClass}">\${row.type}</span></td>
-              <td><span class="provider-badge \${row.provider.toLowerCase()}">\${{ Rift: '🌀', Relay: '🔗', Thorchain: '⚡', Chainflip: '🔄' }[row.provider] || '⚡'} \${row.provider}</span></td>
-              <td class="amount">\${row.inputAmount}</td>
-              <td class="amount">\${row.outputAmount || '-'}</td>
-              <td><span class="badge \${status === 'completed' ? 'badge-settlement' : 'badge-quote'}">\${status}</span></td>
-            </tr>
-          \`
-        }).join('')
+        renderData()
+        loadAnalytics()
       } catch (e) {
         console.error('Failed to load data:', e)
       }
     }
     
+    async function loadAnalytics() {
+      try {
+        const compared = experiments.filter(e => e.swaps > 0).map(e => e.name).join(',')
+        const [reliabilityRes, accuracyRes, competitivenessRes, comparisonRes] = await Promise.all([
+          fetch(withExperiment('/api/reliability')),
+          fetch(withExperiment('/api/quote-accuracy')),
+          fetch(withExperiment('/api/competitiveness')),
+          fetch('/api/experiments/compare?experiments=' + encodeURIComponent(compared))
+        ])
+        renderReliability(await reliabilityRes.json())
+        renderQuoteAccuracy(await accuracyRes.json())
+        renderCompetitiveness(await competitivenessRes.json())
+        renderExperimentComparison(await comparisonRes.json())
+      } catch (e) {
+        console.error('Failed to load analytics:', e)
+      }
+    }
+    
+    // Analytics tables are recomputed server-side - refresh at most every few seconds while events stream in
+    let analyticsTimer = null
+    function scheduleAnalytics() {
+      if (analyticsTimer) return
+      analyticsTimer = setTimeout(() => {
+        analyticsTimer = null
+        loadAnalytics()
+      }, 3000)
+    }
+    
+    function renderCounts() {
+      document.getElementById('quoteCount').textContent = allData.filter(d => d.type === 'quote').length
+      document.getElementById('swapCount').textContent = allData.filter(d => d.type === 'swap').length
+      document.getElementById('settlementCount').textContent = allData.filter(d => d.type === 'settlement').length
+    }
+    
+    function renderJourneys() {
+      populateProviderFilter()
+      populateCycleFilter()
+      if (allJourneys.length === 0) {
+        document.getElementById('journeyCount').textContent = '0 swaps'
+        document.getElementById('journeysGrid').innerHTML = '<div style="color: var(--text-muted); padding: 40px; text-align: center; grid-column: 1 / -1;">No swaps yet. Execute some swaps to track them here.</div>'
+      } else {
+        applyFilters()
+      }
+    }
+    
+    function renderTableRow(row, idx) {
+      const time = new Date(row.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+      const badgeClass = row.type === 'settlement' ? 'badge-settlement' : row.type === 'swap' ? 'badge-swap' : row.type === 'failure' ? 'badge-failure' : 'badge-quote'
+      const status = row.type === 'settlement' ? (row.status || 'pending') : row.type === 'swap' ? 'pending' : row.type === 'failure' ? row.errorType : '-'
+      
+      return \`
+        <tr onclick="showDetails(\${idx})">
+          <td style="color: var(--text-muted)">\${time}</td>
+          <td class="pair">\${row.inputToken}<span class="pair-arrow">→</span>\${row.outputToken}</td>
+          <td><span class="badge \${badgeClass}">\${row.type}</span></td>
+          <td><span class="provider-badge \${row.provider.toLowerCase()}">\${providerEmoji(row.provider)} \${row.provider}</span></td>
+          <td class="amount">\${row.inputAmount}</td>
+          <td class="amount">\${fromBaseUnits(row.outputAmount, row.outputToken) || '-'}</td>
+          <td><span class="badge \${status === 'completed' ? 'badge-settlement' : 'badge-quote'}">\${status}</span></td>
+        </tr>
+      \`
+    }
+    
+    function renderData() {
+      const tbody = document.getElementById('tbody')
+      renderCounts()
+      
+      // Build and render journeys
+      allJourneys = buildJourneys(allData, cfSwapIds)
+      renderJourneys()
+      
+      // Render raw table
+      if (allData.length === 0) {
+        tbody.innerHTML = \`
+          <tr>
+            <td colspan="8">
+              <div class="empty-state">
+                <div class="empty-state-icon">📭</div>
+                <div>No data yet. Start running swaps to see activity here.</div>
+              </div>
+            </td>
+          </tr>
+        \`
+        return
+      }
+      
+      tbody.innerHTML = allData.slice().reverse().map((row, idx) => renderTableRow(row, allData.length - 1 - idx)).join('')
+    }
+    
+    // Rebuild the journey for one swapId from its rows (plus quotes for matching) and put it in place
+    function upsertJourney(swapId) {
+      const [journey] = buildJourneys(allData.filter(d => d.type === 'quote' || d.swapId === swapId), cfSwapIds)
+      if (!journey) return
+      const idx = allJourneys.findIndex(j => j.swapId === swapId)
+      if (idx === -1) {
+        allJourneys.push(journey)
+        allJourneys.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+      } else {
+        allJourneys[idx] = journey
+      }
+    }
+    
+    // Live updates from /api/events - applied to the in-memory rows/journeys without refetching
+    function connectEvents() {
+      const events = new EventSource('/api/events')
+      let disconnected = false
+      
+      events.onopen = () => {
+        // Events may have been missed while disconnected - resync once
+        if (disconnected) loadData()
+        disconnected = false
+      }
+      events.onerror = () => { disconnected = true }
+      
+      events.addEventListener('row', (e) => {
+        const { row } = JSON.parse(e.data)
+        if (selectedExperiment() && row.experiment !== selectedExperiment()) return
+        if (allData.length === 0) {
+          allData.push(row)
+          renderData()
+        } else {
+          allData.push(row)
+          renderCounts()
+          document.getElementById('tbody').insertAdjacentHTML('afterbegin', renderTableRow(row, allData.length - 1))
+          if ((row.type === 'swap' || row.type === 'settlement') && row.swapId) {
+            upsertJourney(row.swapId)
+            renderJourneys()
+          }
+        }
+        scheduleAnalytics()
+      })
+      
+      events.addEventListener('status', (e) => {
+        const { swapId, stage } = JSON.parse(e.data)
+        journeyStages[swapId] = stage
+        if (allJourneys.some(j => j.swapId === swapId)) applyFilters()
+      })
+      
+      events.addEventListener('chainflip-id', (e) => {
+        const { swapId, numericSwapId } = JSON.parse(e.data)
+        cfSwapIds[swapId] = numericSwapId
+        upsertJourney(swapId)
+        renderJourneys()
+      })
+      
+      events.addEventListener('balances', (e) => renderBalances(JSON.parse(e.data).balances))
+      
+      // A new experiment was started: follow it if the archived one was being viewed
+      events.addEventListener('experiment', async (e) => {
+        const { name, archived } = JSON.parse(e.data)
+        const follow = selectedExperiment() === archived
+        await loadExperiments(follow ? name : selectedExperiment())
+        if (follow) {
+          loadData()
+          loadCharts()
+        }
+      })
+    }
+    
     function showDetails(idx) {
       const row = allData[idx]
       if (!row) return
@@ -1649,7 +2412,8 @@ export function startServer() {
       const typeConfig = {
         settlement: { icon: '✅', title: 'Settlement Details' },
         swap: { icon: '🔄', title: 'Swap Details' },
-        quote: { icon: '📊', title: 'Quote Details' }
+        quote: { icon: '📊', title: 'Quote Details' },
+        failure: { icon: '⚠️', title: 'Failure Details' }
       }
       
       const config = typeConfig[row.type] || typeConfig.quote
@@ -1698,13 +2462,30 @@ export function startServer() {
           </div>
           <div class="modal-row">
             <span class="modal-label">Provider</span>
-            <span class="modal-value" style="color: var(--accent-\${{ Relay: 'pink', Rift: 'purple', Thorchain: 'green', Chainflip: 'orange' }[row.provider] || 'orange'})">\${{ Rift: '🌀', Relay: '🔗', Thorchain: '⚡', Chainflip: '🔄' }[row.provider] || '⚡'} \${row.provider}</span>
+            <span class="modal-value" style="color: var(--accent-\${providerAccent(row.provider)})">\${providerEmoji(row.provider)} \${row.provider}</span>
           </div>
           <div class="modal-row">
             <span class="modal-label">Time</span>
             <span class="modal-value">\${formatTime(row.timestamp)}</span>
           </div>
         </div>
+        \${row.type === 'failure' ? \`
+        <div class="modal-section">
+          <div class="modal-section-title">Failure</div>
+          <div class="modal-row">
+            <span class="modal-label">Stage</span>
+            <span class="modal-value">\${row.failureStage}</span>
+          </div>
+          <div class="modal-row">
+            <span class="modal-label">Error Type</span>
+            <span class="modal-value" style="color: var(--accent-red)">\${row.errorType.replace(/_/g, ' ')}</span>
+          </div>
+          <div class="modal-row">
+            <span class="modal-label">Message</span>
+            <span class="modal-value" style="font-size:0.75rem;">\${row.errorMessage.replace(/</g, '&lt;')}</span>
+          </div>
+        </div>
+        \` : ''}
         
         <div class="modal-section">
           <div class="modal-section-title">Trade</div>
@@ -1718,16 +2499,17 @@ export function startServer() {
           </div>
           <div class="modal-row">
             <span class="modal-label">Expected Output</span>
-            <span class="modal-value success">\${row.outputAmount} \${row.outputToken === 'BTC' ? 'sats' : row.outputToken}</span>
+            <span class="modal-value success">\${fromBaseUnits(row.outputAmount, row.outputToken)} \${row.outputToken}</span>
           </div>
           \${row.actualOutputAmount ? \`
           <div class="modal-row">
             <span class="modal-label">Actual Output</span>
-            <span class="modal-value success">\${row.actualOutputAmount} \${row.outputToken === 'BTC' ? 'sats' : row.outputToken}</span>
+            <span class="modal-value success">\${fromBaseUnits(row.actualOutputAmount, row.outputToken)} \${row.outputToken}</span>
           </div>
           \` : ''}
         </div>
         
+        \${row.type === 'quote' ? renderFeeBreakdown(row) : ''}
       \`
       
       if (row.type === 'swap' || row.type === 'settlement') {
@@ -1771,33 +2553,126 @@ export function startServer() {
       if (e.key === 'Escape') closeModal()
     })
     
-    async function clearData() {
-      if (!confirm('Clear all data?')) return
-      await fetch('/api/clear', { method: 'POST' })
+    // Operator actions send the operator token (asked for once per tab) unless the dashboard login already grants it
+    let operatorToken = sessionStorage.getItem('operatorToken')
+    async function operatorFetch(url, options = {}) {
+      const send = () => fetch(url, { ...options, headers: { ...options.headers, ...(operatorToken && { Authorization: 'Bearer ' + operatorToken }) } })
+      let res = await send()
+      if (res.status === 401) {
+        const token = prompt('Operator token')
+        if (!token) return null
+        operatorToken = token
+        res = await send()
+        if (res.ok) sessionStorage.setItem('operatorToken', token)
+      }
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        alert(body.error || 'Request failed (' + res.status + ')')
+        return null
+      }
+      return res
+    }
+
+    // Populate the experiment selector, keeping the current choice (or the given one; null for the active experiment)
+    async function loadExperiments(select = selectedExperiment()) {
+      try {
+        const res = await fetch('/api/experiments')
+        experiments = await res.json()
+      } catch (e) {
+        console.error('Failed to load experiments:', e)
+        return
+      }
+      const active = experiments.find(e => e.active)
+      const options = [new Option('All experiments', '')].concat(experiments.map(e => new Option(e.name + (e.active ? ' (active)' : ''), e.name)))
+      const dropdown = document.getElementById('experimentSelect')
+      dropdown.replaceChildren(...options)
+      dropdown.value = select === '' || experiments.some(e => e.name === select) ? select : (active ? active.name : '')
+    }
+    
+    function selectExperiment() {
       loadData()
+      loadCharts()
+    }
+    
+    // Archive the active experiment and log new rows under a new name (no data is deleted)
+    async function newExperiment() {
+      const active = experiments.find(e => e.active)
+      const name = prompt('Name for the new experiment (e.g. "Feb $1k tier"). "' + (active ? active.name : 'current') + '" is archived and stays viewable.')
+      if (!name) return
+      const res = await operatorFetch('/api/experiments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      })
+      if (!res) return
+      await loadExperiments((await res.json()).name)
+      loadData()
+      loadCharts()
+    }
+    
+    // Experiment comparison: one column per experiment (click a name above the table to hide it)
+    const hiddenExperiments = new Set()
+    let experimentComparison = null
+    
+    function toggleComparedExperiment(name) {
+      if (hiddenExperiments.has(name)) hiddenExperiments.delete(name)
+      else hiddenExperiments.add(name)
+      renderExperimentComparison(experimentComparison)
+    }
+    
+    function renderExperimentComparison(comparison) {
+      experimentComparison = comparison
+      const names = comparison.experiments.filter(name => !hiddenExperiments.has(name))
+      document.getElementById('experimentChips').innerHTML = comparison.experiments.map(name =>
+        \`<span class="\${hiddenExperiments.has(name) ? 'hidden' : ''}" data-name="\${escapeHtml(name)}" onclick="toggleComparedExperiment(this.dataset.name)">● \${escapeHtml(name)}</span>\`
+      ).join('')
+      document.getElementById('experimentHead').innerHTML = '<tr><th>Provider</th><th>Pair</th>' + names.map(name => \`<th>\${escapeHtml(name)}</th>\`).join('') + '</tr>'
+      const tbody = document.getElementById('experimentBody')
+      if (comparison.groups.length === 0 || names.length === 0) {
+        tbody.innerHTML = \`<tr><td colspan="\${names.length + 2}" style="color: var(--text-muted); text-align: center;">No experiments with swaps yet.</td></tr>\`
+        return
+      }
+      const cell = (r) => {
+        if (!r) return '<span style="color: var(--text-muted)">—</span>'
+        const fee = r.feeBips.p50 === null ? '—' : r.feeBips.p50.toFixed(0) + ' bps'
+        const success = r.successRate === null ? '—' : (r.successRate * 100).toFixed(0) + '%'
+        const size = r.inputUsd === null ? '' : \` · ~$\${r.inputUsd.toFixed(0)}\`
+        return \`\${fee} <span style="color: var(--text-muted)">(\${r.completed}/\${r.swaps} · \${success}\${size})</span>\`
+      }
+      tbody.innerHTML = comparison.groups.map(g => \`
+        <tr>
+          <td><span class="provider-badge \${g.provider.toLowerCase()}">\${providerEmoji(g.provider)} \${g.provider}</span></td>
+          <td>\${g.pair}</td>
+          \${names.map(name => \`<td>\${cell(g.results[name])}</td>\`).join('')}
+        </tr>
+      \`).join('')
+    }
+    
+    function renderBalances(bal) {
+      document.getElementById('btcBalance').textContent = bal.btc
+      document.getElementById('ethBalance').textContent = bal.eth
+      document.getElementById('usdcBalance').textContent = bal.usdc
+      document.getElementById('cbbtcBalance').textContent = bal.cbbtc
+      
+      const btcUsd = Number(bal.btcUsd)
+      const ethUsd = Number(bal.ethUsd)
+      const usdcUsd = Number(bal.usdcUsd)
+      const cbbtcUsd = Number(bal.cbbtcUsd)
+      
+      document.getElementById('btcUsd').textContent = btcUsd > 0 ? '$' + btcUsd.toLocaleString() : '...'
+      document.getElementById('ethUsd').textContent = ethUsd > 0 ? '$' + ethUsd.toLocaleString() : '...'
+      document.getElementById('usdcUsd').textContent = usdcUsd > 0 ? '$' + usdcUsd.toLocaleString() : '...'
+      document.getElementById('cbbtcUsd').textContent = cbbtcUsd > 0 ? '$' + cbbtcUsd.toLocaleString() : '...'
     }
     
     async function loadBalances(retries = 2) {
       try {
         const res = await fetch('/api/balances')
         const bal = await res.json()
-        document.getElementById('btcBalance').textContent = bal.btc
-        document.getElementById('ethBalance').textContent = bal.eth
-        document.getElementById('usdcBalance').textContent = bal.usdc
-        document.getElementById('cbbtcBalance').textContent = bal.cbbtc
-        
-        const btcUsd = Number(bal.btcUsd)
-        const ethUsd = Number(bal.ethUsd)
-        const usdcUsd = Number(bal.usdcUsd)
-        const cbbtcUsd = Number(bal.cbbtcUsd)
-        
-        document.getElementById('btcUsd').textContent = btcUsd > 0 ? '$' + btcUsd.toLocaleString() : '...'
-        document.getElementById('ethUsd').textContent = ethUsd > 0 ? '$' + ethUsd.toLocaleString() : '...'
-        document.getElementById('usdcUsd').textContent = usdcUsd > 0 ? '$' + usdcUsd.toLocaleString() : '...'
-        document.getElementById('cbbtcUsd').textContent = cbbtcUsd > 0 ? '$' + cbbtcUsd.toLocaleString() : '...'
+        renderBalances(bal)
         
         // Retry if USD values are 0 (prices not loaded)
-        if (retries > 0 && btcUsd === 0 && ethUsd === 0) {
+        if (retries > 0 && Number(bal.btcUsd) === 0 && Number(bal.ethUsd) === 0) {
           setTimeout(() => loadBalances(retries - 1), 2000)
         }
       } catch (e) {
@@ -1837,17 +2712,21 @@ export function startServer() {
       }
     }
     
-    loadData()
+    loadExperiments(null).then(() => {
+      loadData()
+      loadCharts()
+    })
     loadBalances()
     loadAddresses()
-    setInterval(loadData, 5000)
-    setInterval(loadBalances, 30000) // Refresh balances every 30s
+    connectEvents() // Rows, stages and balances are pushed as they happen
+    setInterval(() => { if (allJourneys.length) applyFilters() }, 5000) // Keep elapsed times ticking
+    setInterval(loadCharts, 60000) // Series are bucketed hourly or coarser
   </script>
 </body>
 </html>`)
   })
 
-  server.listen(PORT, () => {
+  server.listen(PORT, host, () => {
     console.log(`📊 Dashboard running at http://localhost:${PORT}`)
   })
 }
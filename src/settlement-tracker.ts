@@ -1,24 +1,13 @@
-import { rift } from './providers/rift.js'
-import { relay } from './providers/relay.js'
-import { thorchain } from './providers/thorchain.js'
-import { chainflip } from './providers/chainflip.js'
+import { getProviderEntry, providerTag } from './providers/registry.js'
 import { logSettlement } from './csv.js'
-import { type SwapResult, type SettlementResult, colorPair } from './providers/types.js'
+import { type SwapResult, colorPair, formatTokenAmount } from './providers/types.js'
 import { getTokenPrices } from './prices.js'
+import { PersistentMap, restorePendingState } from './pending-store.js'
+import { recordStage } from './lifecycle.js'
+import { verifyPayout } from './verify.js'
 
-// Provider-specific settlement checkers
-const providerCheckers: Record<string, {
-  checkSettlementOnce: (swapId: string, verbose: boolean) => Promise<SettlementResult | null>
-  getStatusString: (swapId: string) => Promise<string>
-}> = {
-  Rift: rift,
-  Relay: relay,
-  Thorchain: thorchain,
-  Chainflip: chainflip,
-}
-
-// Pending swaps waiting for settlement
-const pendingSwaps = new Map<string, SwapResult>()
+// Pending swaps waiting for settlement (persisted alongside each provider's tracking metadata)
+const pendingSwaps = new PersistentMap<SwapResult>('settlement-tracker')
 
 // Poll interval for checking settlements
 const POLL_INTERVAL_MS = 30_000 // 30 seconds
@@ -26,19 +15,6 @@ const POLL_INTERVAL_MS = 30_000 // 30 seconds
 // Max time to wait for settlement before giving up
 const MAX_WAIT_MS = 24 * 60 * 60 * 1000 // 24 hours
 
-// Provider emoji mapping
-const PROVIDER_EMOJI: Record<string, string> = {
-  Rift: '⚡',
-  Thorchain: '🌀',
-  Relay: '🔗',
-  Chainflip: '🔄',
-}
-
-function providerTag(provider: string): string {
-  const emoji = PROVIDER_EMOJI[provider] || '📦'
-  return `${emoji}${provider}`
-}
-
 /**
  * Add a swap to the pending queue for settlement tracking
  */
@@ -58,11 +34,26 @@ export function getPendingCount(): number {
   return pendingSwaps.size
 }
 
+/**
+ * Pending swaps per provider
+ */
+export function getPendingByProvider(): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const swap of pendingSwaps.values()) counts[swap.provider] = (counts[swap.provider] || 0) + 1
+  return counts
+}
+
 /**
  * Start the background settlement watcher
  */
 export function startSettlementWatcher() {
   console.log('👀 Settlement watcher started')
+
+  // Rehydrate in-flight swaps (and provider tracking metadata) from the pending-swap store
+  const restored = restorePendingState()
+  for (const [namespace, count] of Object.entries(restored)) {
+    if (count > 0) console.log(`   ♻️  Restored ${count} pending ${namespace} entr${count === 1 ? 'y' : 'ies'}`)
+  }
   
   // Initial check after 10 seconds
   setTimeout(checkAllPending, 10_000)
@@ -98,6 +89,7 @@ async function checkAllPending() {
       // Check for timeout
       if (elapsed > MAX_WAIT_MS) {
         lines.push(`  ⏰ [${tag}] ${colorPair(swap.inputToken, swap.outputToken)} TIMEOUT (${elapsedMins}m)`)
+        recordStage(swapId, swap.provider, 'timeout')
         logSettlement({
           swapId,
           status: 'timeout',
@@ -109,8 +101,8 @@ async function checkAllPending() {
         continue
       }
       
-      // Get the provider-specific checker
-      const checker = providerCheckers[swap.provider]
+      // Get the provider-specific checker from the registry
+      const checker = getProviderEntry(swap.provider)?.provider
       if (!checker) {
         lines.push(`  ⚠️ [${tag}] ${colorPair(swap.inputToken, swap.outputToken)} No settlement checker for provider`)
         continue
@@ -122,17 +114,25 @@ async function checkAllPending() {
         const txInfo = settlement.payoutTxHash 
           ? ` | Tx: ${settlement.payoutTxHash.slice(0, 16)}...`
           : ''
-        lines.push(`  ✅ [${tag}] ${colorPair(swap.inputToken, swap.outputToken)} SETTLED${txInfo}`)
+        // Check what actually arrived on-chain before logging
+        const verification = await verifyPayout(settlement, swap.outputToken)
+        settlement.verifiedOutputAmount = verification.onchainAmount
+        settlement.outputMismatch = verification.mismatch
+        settlement.verificationNote = verification.note
+        const mismatchInfo = verification.mismatch ? ` | ⚠️ mismatch ${verification.mismatch}` : ''
+        lines.push(`  ✅ [${tag}] ${colorPair(swap.inputToken, swap.outputToken)} SETTLED${txInfo}${mismatchInfo}`)
+        recordStage(swapId, swap.provider, settlement.status === 'refunded' ? 'refunded' : 'payout_confirmed', settlement.status)
         logSettlement(settlement, swap, prices)
         pendingSwaps.delete(swapId)
-      } else if (settlement && settlement.status === 'failed') {
-        lines.push(`  ❌ [${tag}] ${colorPair(swap.inputToken, swap.outputToken)} FAILED`)
+      } else if (settlement && (settlement.status === 'failed' || settlement.status === 'refunded')) {
+        lines.push(`  ❌ [${tag}] ${colorPair(swap.inputToken, swap.outputToken)} ${settlement.status.toUpperCase()}`)
+        recordStage(swapId, swap.provider, settlement.status === 'refunded' ? 'refunded' : 'failed', settlement.status)
         logSettlement(settlement, swap, prices)
         pendingSwaps.delete(swapId)
       } else {
         // Still pending - show compact status
         const statusInfo = await checker.getStatusString(swapId)
-        lines.push(`  ⏳ [${tag}] ${colorPair(swap.inputToken, swap.outputToken)} (${swap.inputAmount}) | ${elapsedMins}m | ${statusInfo}`)
+        lines.push(`  ⏳ [${tag}] ${colorPair(swap.inputToken, swap.outputToken)} (${formatTokenAmount(swap.inputAmount)}) | ${elapsedMins}m | ${statusInfo}`)
       }
       
     } catch (err) {
@@ -0,0 +1,120 @@
+import { erc20Abi, parseEventLogs, type Hash } from 'viem'
+import { mainnetPublicClient, BTC_ADDRESS, EVM_ADDRESS } from './account.js'
+import { type SettlementResult, type TokenAmount, tokenAmount, formatTokenAmount } from './providers/types.js'
+
+// ERC20 contracts for EVM output tokens (native ETH has none)
+const TOKEN_CONTRACTS: Record<string, `0x${string}`> = {
+  USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  CBBTC: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf',
+}
+
+export interface PayoutVerification {
+  onchainAmount: TokenAmount | null  // what actually arrived at our address (null if the tx couldn't be read)
+  mismatch: bigint | null            // provider-reported minus on-chain, in base units (null if either is missing)
+  note: string                       // how the amount was derived, or why verification failed
+}
+
+// Sum the outputs of a Bitcoin tx paying BTC_ADDRESS
+async function btcReceived(txid: string): Promise<bigint> {
+  const res = await fetch(`https://mempool.space/api/tx/${txid}`)
+  if (!res.ok) throw new Error(`mempool.space tx lookup failed: ${res.status}`)
+  const tx = await res.json() as { vout: Array<{ scriptpubkey_address?: string; value: number }> }
+  return tx.vout
+    .filter(out => out.scriptpubkey_address === BTC_ADDRESS)
+    .reduce((sum, out) => sum + BigInt(out.value), 0n)
+}
+
+// Sum ERC20 Transfer logs to EVM_ADDRESS for a token in a tx
+async function erc20Received(hash: Hash, contract: `0x${string}`): Promise<bigint> {
+  const receipt = await mainnetPublicClient.getTransactionReceipt({ hash })
+  const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs })
+  return transfers
+    .filter(log => log.address.toLowerCase() === contract.toLowerCase() && log.args.to.toLowerCase() === EVM_ADDRESS.toLowerCase())
+    .reduce((sum, log) => sum + log.args.value, 0n)
+}
+
+// Call frame from geth's callTracer
+interface CallFrame {
+  type: string
+  to?: string
+  value?: string
+  error?: string
+  calls?: CallFrame[]
+}
+
+// ETH moved to EVM_ADDRESS by successful CALLs in a traced tx (reverted frames and their children moved nothing)
+function tracedValue(frame: CallFrame): bigint {
+  if (frame.error) return 0n
+  const own = frame.type === 'CALL' && frame.to?.toLowerCase() === EVM_ADDRESS.toLowerCase() && frame.value ? BigInt(frame.value) : 0n
+  return (frame.calls || []).reduce((sum, call) => sum + tracedValue(call), own)
+}
+
+// Native ETH received in a tx: direct value transfer, or internal calls found by tracing the tx
+// (router/solver payouts have no log to read). Null when the RPC can't trace.
+async function ethReceived(hash: Hash): Promise<{ amount: bigint; method: string } | null> {
+  const tx = await mainnetPublicClient.getTransaction({ hash })
+  if (tx.to?.toLowerCase() === EVM_ADDRESS.toLowerCase()) {
+    return { amount: tx.value, method: 'tx value' }
+  }
+  // debug_* isn't in viem's public RPC schema
+  const request = mainnetPublicClient.request as unknown as (args: { method: string; params: unknown[] }) => Promise<CallFrame>
+  try {
+    const trace = await request({ method: 'debug_traceTransaction', params: [hash, { tracer: 'callTracer' }] })
+    return { amount: tracedValue(trace), method: 'internal calls (trace)' }
+  } catch {
+    return null
+  }
+}
+
+// Midgard reports EVM tx IDs uppercase without 0x
+function evmTxHash(hash: string): Hash {
+  return `0x${hash.replace(/^0x/i, '').toLowerCase()}`
+}
+
+/**
+ * Look up a settlement's payoutTxHash on-chain and compare what arrived with the provider-reported amount
+ */
+export async function verifyPayout(settlement: SettlementResult, outputToken: string): Promise<PayoutVerification> {
+  const { payoutTxHash } = settlement
+  if (!payoutTxHash) {
+    return { onchainAmount: null, mismatch: null, note: 'no payout tx' }
+  }
+  // The reported amount is the sum of several outbound txs, only one of which we know
+  if ((settlement.payoutCount ?? 1) > 1) {
+    return { onchainAmount: null, mismatch: null, note: `not verified: ${settlement.payoutCount} outbound txs` }
+  }
+
+  let units: bigint
+  let note: string
+  try {
+    if (outputToken === 'BTC') {
+      units = await btcReceived(payoutTxHash.replace(/^0x/i, ''))
+      note = 'btc outputs'
+    } else if (TOKEN_CONTRACTS[outputToken]) {
+      units = await erc20Received(evmTxHash(payoutTxHash), TOKEN_CONTRACTS[outputToken])
+      note = 'erc20 transfer logs'
+    } else {
+      const received = await ethReceived(evmTxHash(payoutTxHash))
+      if (received === null) {
+        return { onchainAmount: null, mismatch: null, note: 'not verified: ETH paid by internal call and the RPC cannot trace txs' }
+      }
+      units = received.amount
+      note = received.method
+    }
+  } catch (err) {
+    return { onchainAmount: null, mismatch: null, note: `lookup failed: ${err instanceof Error ? err.message : err}` }
+  }
+
+  const onchainAmount = tokenAmount(outputToken, units)
+  const reported = settlement.actualOutputAmount
+  const mismatch = reported ? reported.units - units : null
+
+  if (units === 0n) {
+    console.warn(`   ⚠️ Payout tx ${payoutTxHash.slice(0, 16)}... sent nothing to our ${outputToken} address`)
+    note = `${note}: nothing sent to our address`
+  } else if (mismatch) {
+    console.warn(`   ⚠️ Payout mismatch: provider reported ${formatTokenAmount(reported!)} ${outputToken}, on-chain ${formatTokenAmount(onchainAmount)} ${outputToken}`)
+  }
+
+  return { onchainAmount, mismatch, note }
+}